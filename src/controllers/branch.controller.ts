@@ -1,11 +1,19 @@
 import prisma from "../lib/prisma";
 import { v4 as uuidv4 } from "uuid";
 import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { isValidTimeZone } from "../utils/timezone";
 
 export const BranchController = {
     async createBranch(req: any, res: any) {
-        const { name } = req.body;
+        const { name, tax_rate, prices_include_tax, receipt_header, receipt_footer, timezone } = req.body;
         try {
+            if (tax_rate !== undefined && !(Number(tax_rate) >= 0 && Number(tax_rate) < 1)) {
+                return res.status(400).json({ message: "La tasa de impuesto debe ser un valor entre 0 y 1 (ejemplo: 0.16)" });
+            }
+            if (timezone !== undefined && !isValidTimeZone(timezone)) {
+                return res.status(400).json({ message: "Zona horaria inválida. Use un nombre IANA (ejemplo: America/Mexico_City)" });
+            }
+
             const uuid = uuidv4();
             const branchBufferId = uuidToBuffer(uuid);
             const newBranch = await prisma.branch.create({
@@ -14,12 +22,22 @@ export const BranchController = {
                     created_at: new Date(),
                     updated_at: new Date(),
                     name: name,
+                    tax_rate: tax_rate !== undefined ? Number(tax_rate) : undefined,
+                    prices_include_tax: prices_include_tax,
+                    receipt_header: receipt_header,
+                    receipt_footer: receipt_footer,
+                    timezone: timezone,
                 },
                 select: {
                     id: true,
                     created_at: true,
                     updated_at: true,
                     name: true,
+                    tax_rate: true,
+                    prices_include_tax: true,
+                    receipt_header: true,
+                    receipt_footer: true,
+                    timezone: true,
                 },
             });
 
@@ -45,6 +63,11 @@ export const BranchController = {
                     created_at: true,
                     updated_at: true,
                     name: true,
+                    tax_rate: true,
+                    prices_include_tax: true,
+                    receipt_header: true,
+                    receipt_footer: true,
+                    timezone: true,
                 },
             });
 
@@ -58,6 +81,67 @@ export const BranchController = {
             return res.status(500).json({ message: "Error de servidor" + error });
         }
     },
+    async updateBranch(req: any, res: any) {
+        const { id, name, tax_rate, prices_include_tax, receipt_header, receipt_footer, timezone } = req.body;
+
+        try {
+            if (tax_rate !== undefined && !(Number(tax_rate) >= 0 && Number(tax_rate) < 1)) {
+                return res.status(400).json({ message: "La tasa de impuesto debe ser un valor entre 0 y 1 (ejemplo: 0.16)" });
+            }
+            if (timezone !== undefined && !isValidTimeZone(timezone)) {
+                return res.status(400).json({ message: "Zona horaria inválida. Use un nombre IANA (ejemplo: America/Mexico_City)" });
+            }
+
+            const existingBranch = await prisma.branch.findUnique({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+            });
+
+            if (!existingBranch) {
+                return res.status(404).json({ message: "Sucursal no encontrada" });
+            }
+
+            // Preparar los datos para actualizar; las ventas ya registradas conservan su desglose de impuestos
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+
+            if (name !== undefined) updateData.name = name;
+            if (tax_rate !== undefined) updateData.tax_rate = Number(tax_rate);
+            if (prices_include_tax !== undefined) updateData.prices_include_tax = prices_include_tax;
+            if (receipt_header !== undefined) updateData.receipt_header = receipt_header;
+            if (receipt_footer !== undefined) updateData.receipt_footer = receipt_footer;
+            if (timezone !== undefined) updateData.timezone = timezone;
+
+            const updatedBranch = await prisma.branch.update({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+                data: updateData,
+                select: {
+                    id: true,
+                    created_at: true,
+                    updated_at: true,
+                    name: true,
+                    tax_rate: true,
+                    prices_include_tax: true,
+                    receipt_header: true,
+                    receipt_footer: true,
+                    timezone: true,
+                },
+            });
+
+            const formattedBranch = {
+                ...updatedBranch,
+                id: bufferToUuid(Buffer.from(updatedBranch.id)),
+            };
+
+            res.status(200).json(formattedBranch);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
     async updateBranchReferences(req: any, res: any) {
         const { id } = req.params;
         
@@ -122,4 +206,66 @@ export const BranchController = {
             return res.status(500).json({ message: "Error de servidor: " + error });
         }
     },
+    // Asigna la sucursal a las ventas registradas antes de que la venta la guardara.
+    // Primero se toma del turno de caja de la venta y después del usuario, solo si pertenece a una
+    // única sucursal. Las restantes se asignan a branch_id si se envía; si no, se reportan como pendientes.
+    async backfillSaleBranches(req: any, res: any) {
+        const { branch_id } = req.body;
+
+        try {
+            const fallbackBranchId = branch_id ? uuidToBuffer(branch_id) : null;
+
+            if (fallbackBranchId) {
+                const branch = await prisma.branch.findUnique({
+                    where: { id: fallbackBranchId }
+                });
+
+                if (!branch) {
+                    return res.status(404).json({ message: "Sucursal no encontrada" });
+                }
+            }
+
+            const result = await prisma.$transaction(async (tx) => {
+                const fromShift = await tx.$executeRaw`
+                    UPDATE sale s
+                    JOIN cash_shift cs ON cs.id = s.shift_id
+                    SET s.branch_id = cs.branch_id
+                    WHERE s.branch_id IS NULL
+                `;
+
+                const fromUser = await tx.$executeRaw`
+                    UPDATE sale s
+                    JOIN (
+                        SELECT user_id, MIN(branch_id) AS branch_id
+                        FROM user_branch
+                        GROUP BY user_id
+                        HAVING COUNT(*) = 1
+                    ) ub ON ub.user_id = s.user_id
+                    SET s.branch_id = ub.branch_id
+                    WHERE s.branch_id IS NULL
+                `;
+
+                const fromFallback = fallbackBranchId ? (await tx.sale.updateMany({
+                    where: { branch_id: null },
+                    data: { branch_id: fallbackBranchId }
+                })).count : 0;
+
+                const pendingCount = await tx.sale.count({ where: { branch_id: null } });
+
+                return {
+                    fromShift,
+                    fromUser,
+                    fromFallback,
+                    pendingCount
+                };
+            });
+
+            res.status(200).json({
+                message: "Sucursal de ventas actualizada exitosamente",
+                updatedCounts: result
+            });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
 };
\ No newline at end of file
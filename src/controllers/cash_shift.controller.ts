@@ -0,0 +1,272 @@
+import prisma from "../lib/prisma";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { getUserBranchId } from "../utils/branch";
+import { roundMoney, SaleError } from "../utils/sale";
+import { computeShiftSummary } from "../utils/shift";
+
+const shiftSelect = {
+    id: true,
+    status: true,
+    opened_at: true,
+    closed_at: true,
+    opening_float: true,
+    counted_cash: true,
+    expected_cash: true,
+    variance: true,
+    notes: true,
+    branch_id: true,
+    opened_by: true,
+    closed_by: true,
+    cash_movement: {
+        select: {
+            id: true,
+            created_at: true,
+            type: true,
+            amount: true,
+            reason: true,
+            user_id: true,
+        },
+        orderBy: {
+            created_at: 'asc' as const
+        }
+    }
+};
+
+const formatShift = (shift: any) => ({
+    ...shift,
+    id: bufferToUuid(Buffer.from(shift.id)),
+    branch_id: bufferToUuid(Buffer.from(shift.branch_id)),
+    opened_by: bufferToUuid(Buffer.from(shift.opened_by)),
+    closed_by: shift.closed_by ? bufferToUuid(Buffer.from(shift.closed_by)) : null,
+    cash_movement: shift.cash_movement.map((movement: any) => ({
+        ...movement,
+        id: bufferToUuid(Buffer.from(movement.id)),
+        user_id: bufferToUuid(Buffer.from(movement.user_id)),
+    })),
+});
+
+export const CashShiftController = {
+    async openShift(req: any, res: any) {
+        const { branch_id, opening_float, user_id } = req.body;
+        try {
+            const openingFloat = Number(opening_float);
+            if (!(openingFloat >= 0)) {
+                return res.status(400).json({ message: "El fondo inicial es inválido" });
+            }
+
+            const shiftUserId = user_id || req.user.id;
+            const newShift = await prisma.$transaction(async (tx) => {
+                const branchId = branch_id ? uuidToBuffer(branch_id) : await getUserBranchId(tx, shiftUserId);
+                if (!branchId) {
+                    throw new SaleError("Usuario no está asociado a ninguna sucursal", 404);
+                }
+
+                // Solo puede haber un turno abierto por sucursal
+                const openShift = await tx.cash_shift.findFirst({
+                    where: {
+                        branch_id: branchId,
+                        status: "open"
+                    }
+                });
+
+                if (openShift) {
+                    throw new SaleError("Ya existe un turno abierto en la sucursal", 409);
+                }
+
+                return tx.cash_shift.create({
+                    data: {
+                        id: uuidToBuffer(uuidv4()),
+                        created_at: new Date(),
+                        updated_at: new Date(),
+                        status: "open",
+                        opened_at: new Date(),
+                        opening_float: roundMoney(openingFloat),
+                        branch_id: branchId,
+                        opened_by: uuidToBuffer(shiftUserId),
+                    },
+                    select: shiftSelect,
+                });
+            });
+
+            res.status(200).json(formatShift(newShift));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async createMovement(req: any, res: any) {
+        const { shift_id, type, amount, reason } = req.body;
+        try {
+            if (type !== "pay_in" && type !== "pay_out") {
+                return res.status(400).json({ message: "Tipo de movimiento inválido. Use pay_in o pay_out" });
+            }
+            if (!(Number(amount) > 0)) {
+                return res.status(400).json({ message: "El monto del movimiento es inválido" });
+            }
+            if (!reason || !String(reason).trim()) {
+                return res.status(400).json({ message: "El motivo del movimiento es obligatorio" });
+            }
+
+            const shift = await prisma.cash_shift.findUnique({
+                where: {
+                    id: uuidToBuffer(shift_id)
+                },
+                select: {
+                    status: true
+                }
+            });
+
+            if (!shift) {
+                return res.status(404).json({ message: "Turno no encontrado" });
+            }
+            if (shift.status !== "open") {
+                return res.status(409).json({ message: "El turno ya está cerrado" });
+            }
+
+            const newMovement = await prisma.cash_movement.create({
+                data: {
+                    id: uuidToBuffer(uuidv4()),
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                    type: type,
+                    amount: roundMoney(Number(amount)),
+                    reason: String(reason).trim(),
+                    shift_id: uuidToBuffer(shift_id),
+                    user_id: uuidToBuffer(req.user.id),
+                },
+                select: {
+                    id: true,
+                    created_at: true,
+                    type: true,
+                    amount: true,
+                    reason: true,
+                    shift_id: true,
+                    user_id: true,
+                }
+            });
+
+            const formattedMovement = {
+                ...newMovement,
+                id: bufferToUuid(Buffer.from(newMovement.id)),
+                shift_id: bufferToUuid(Buffer.from(newMovement.shift_id)),
+                user_id: bufferToUuid(Buffer.from(newMovement.user_id)),
+            };
+
+            res.status(200).json(formattedMovement);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async closeShift(req: any, res: any) {
+        const { shift_id, counted_cash, notes } = req.body;
+        try {
+            const countedCash = Number(counted_cash);
+            if (counted_cash === undefined || counted_cash === null || !(countedCash >= 0)) {
+                return res.status(400).json({ message: "El efectivo contado es inválido" });
+            }
+
+            const closedShift = await prisma.$transaction(async (tx) => {
+                // El cierre es condicional para que dos cierres simultáneos no se registren ambos
+                const closed = await tx.cash_shift.updateMany({
+                    where: {
+                        id: uuidToBuffer(shift_id),
+                        status: "open"
+                    },
+                    data: {
+                        status: "closed",
+                        closed_at: new Date(),
+                        closed_by: uuidToBuffer(req.user.id),
+                        updated_at: new Date(),
+                    }
+                });
+
+                if (closed.count === 0) {
+                    const shift = await tx.cash_shift.findUnique({
+                        where: {
+                            id: uuidToBuffer(shift_id)
+                        },
+                        select: {
+                            status: true
+                        }
+                    });
+                    if (!shift) {
+                        throw new SaleError("Turno no encontrado", 404);
+                    }
+                    throw new SaleError("El turno ya está cerrado", 409);
+                }
+
+                const summary = await computeShiftSummary(tx, uuidToBuffer(shift_id));
+                const closedShift = await tx.cash_shift.update({
+                    where: {
+                        id: uuidToBuffer(shift_id)
+                    },
+                    data: {
+                        counted_cash: roundMoney(countedCash),
+                        expected_cash: summary.expected_cash,
+                        variance: roundMoney(countedCash - summary.expected_cash),
+                        notes: notes,
+                    },
+                    select: shiftSelect,
+                });
+
+                return { ...closedShift, summary };
+            });
+
+            res.status(200).json(formatShift(closedShift));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getCurrentShift(req: any, res: any) {
+        const { branch_id } = req.query;
+        try {
+            const branchId = branch_id ? uuidToBuffer(branch_id) : await getUserBranchId(prisma, req.user.id);
+            if (!branchId) {
+                return res.status(404).json({ message: "Usuario no está asociado a ninguna sucursal" });
+            }
+
+            const shift = await prisma.cash_shift.findFirst({
+                where: {
+                    branch_id: branchId,
+                    status: "open"
+                },
+                select: shiftSelect,
+            });
+
+            if (!shift) {
+                return res.status(404).json({ message: "No hay un turno abierto en la sucursal" });
+            }
+
+            const summary = await computeShiftSummary(prisma, shift.id);
+            res.status(200).json(formatShift({ ...shift, summary }));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getShift(req: any, res: any) {
+        const { id } = req.params;
+        try {
+            const shift = await prisma.cash_shift.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                select: shiftSelect,
+            });
+
+            if (!shift) {
+                return res.status(404).json({ message: "Turno no encontrado" });
+            }
+
+            const summary = await computeShiftSummary(prisma, shift.id);
+            res.status(200).json(formatShift({ ...shift, summary }));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
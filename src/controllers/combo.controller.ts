@@ -4,7 +4,7 @@ import { bufferToUuid, uuidToBuffer } from "../utils/common";
 
 export const ComboController = {
     async createCombo(req: any, res: any) {
-        const { name, description, price, combo_day, branch_id } = req.body;
+        const { name, description, price, combo_day, branch_id, is_tax_exempt } = req.body;
         try {
             const existingCombo = await prisma.combo.findFirst({
                 where: {
@@ -30,6 +30,7 @@ export const ComboController = {
                     description: description,
                     price: price,
                     is_active: true,
+                    is_tax_exempt: Boolean(is_tax_exempt),
                     combo_day: combo_day,
                     branch_id: uuidToBuffer(branch_id),
                 },
@@ -39,6 +40,7 @@ export const ComboController = {
                     name: true,
                     description: true,
                     price: true,
+                    is_tax_exempt: true,
                     branch_id: true,
                 },
             });
@@ -94,6 +96,7 @@ export const ComboController = {
                     description: true,
                     price: true,
                     is_active: true,
+                    is_tax_exempt: true,
                     combo_day: true,
                     branch_id: true,
                 },
@@ -111,7 +114,7 @@ export const ComboController = {
         }
     },
     async updateCombo(req: any, res: any) {
-        const { id,  name, description, price, is_active, combo_day, branch_id } = req.body;
+        const { id,  name, description, price, is_active, is_tax_exempt, combo_day, branch_id } = req.body;
         
         try {
             // Verificar si el combo existe
@@ -152,6 +155,7 @@ export const ComboController = {
             if (description !== undefined) updateData.description = description;
             if (price !== undefined) updateData.price = price;
             if (is_active !== undefined) updateData.is_active = is_active;
+            if (is_tax_exempt !== undefined) updateData.is_tax_exempt = is_tax_exempt;
             if (combo_day !== undefined) updateData.combo_day = combo_day;
             if (branch_id !== undefined) updateData.branch_id = uuidToBuffer(branch_id);
 
@@ -167,6 +171,7 @@ export const ComboController = {
                     description: true,
                     price: true,
                     is_active: true,
+                    is_tax_exempt: true,
                     combo_day: true,
                     branch_id: true,
                 },
@@ -126,6 +126,17 @@ export const ComboDetailController = {
                             name: true,
                             description: true,
                         }
+                    },
+                    combo_slot_upcharge: {
+                        select: {
+                            amount: true,
+                            product_id: true,
+                            product: {
+                                select: {
+                                    name: true,
+                                }
+                            }
+                        }
                     }
                 },
             });
@@ -135,6 +146,10 @@ export const ComboDetailController = {
                 id: bufferToUuid(Buffer.from(detail.id)),
                 combo_id: bufferToUuid(Buffer.from(detail.combo_id)),
                 type_product_id: bufferToUuid(Buffer.from(detail.type_product_id)),
+                combo_slot_upcharge: detail.combo_slot_upcharge.map((upcharge) => ({
+                    ...upcharge,
+                    product_id: bufferToUuid(Buffer.from(upcharge.product_id)),
+                })),
             }));
 
             res.status(200).json(formattedComboDetails);
@@ -142,4 +157,106 @@ export const ComboDetailController = {
             return res.status(500).json({ message: "Error de servidor" + error });
         }
     },
+    // Registra o actualiza el cargo extra de un producto dentro de un espacio del combo (por ejemplo, crepa premium +$15)
+    async setComboSlotUpcharge(req: any, res: any) {
+        const { combo_detail_id, product_id, amount } = req.body;
+        try {
+            if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+                return res.status(400).json({ message: "El cargo extra debe ser mayor a cero" });
+            }
+
+            const comboDetail = await prisma.combo_detail.findUnique({
+                where: {
+                    id: uuidToBuffer(combo_detail_id),
+                },
+                select: {
+                    type_product_id: true,
+                    combo: {
+                        select: {
+                            branch_id: true,
+                        }
+                    }
+                },
+            });
+
+            if (!comboDetail) {
+                return res.status(404).json({ message: "Detalle del combo no encontrado" });
+            }
+
+            const product = await prisma.product.findUnique({
+                where: {
+                    id: uuidToBuffer(product_id),
+                },
+                select: {
+                    type_id: true,
+                    branch_id: true,
+                },
+            });
+
+            if (!product) {
+                return res.status(404).json({ message: "Producto no encontrado" });
+            }
+            if (!Buffer.from(product.type_id).equals(Buffer.from(comboDetail.type_product_id))) {
+                return res.status(400).json({ message: "El producto no es del tipo de este espacio del combo" });
+            }
+            if (comboDetail.combo.branch_id && product.branch_id && !Buffer.from(product.branch_id).equals(Buffer.from(comboDetail.combo.branch_id))) {
+                return res.status(400).json({ message: "El producto no pertenece a la sucursal del combo" });
+            }
+
+            const upcharge = await prisma.combo_slot_upcharge.upsert({
+                where: {
+                    combo_detail_id_product_id: {
+                        combo_detail_id: uuidToBuffer(combo_detail_id),
+                        product_id: uuidToBuffer(product_id),
+                    }
+                },
+                create: {
+                    id: uuidToBuffer(uuidv4()),
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                    amount: amount,
+                    combo_detail_id: uuidToBuffer(combo_detail_id),
+                    product_id: uuidToBuffer(product_id),
+                },
+                update: {
+                    amount: amount,
+                    updated_at: new Date(),
+                },
+                select: {
+                    id: true,
+                    amount: true,
+                    combo_detail_id: true,
+                    product_id: true,
+                },
+            });
+
+            res.status(200).json({
+                ...upcharge,
+                id: bufferToUuid(Buffer.from(upcharge.id)),
+                combo_detail_id: bufferToUuid(Buffer.from(upcharge.combo_detail_id)),
+                product_id: bufferToUuid(Buffer.from(upcharge.product_id)),
+            });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor" + error });
+        }
+    },
+    async deleteComboSlotUpcharge(req: any, res: any) {
+        const { combo_detail_id, product_id } = req.body;
+        try {
+            const deleted = await prisma.combo_slot_upcharge.deleteMany({
+                where: {
+                    combo_detail_id: uuidToBuffer(combo_detail_id),
+                    product_id: uuidToBuffer(product_id),
+                },
+            });
+
+            if (deleted.count === 0) {
+                return res.status(404).json({ message: "El producto no tiene cargo extra en este espacio del combo" });
+            }
+
+            res.status(200).json({ message: "Cargo extra eliminado correctamente" });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor" + error });
+        }
+    },
 };
\ No newline at end of file
@@ -0,0 +1,424 @@
+import prisma from "../lib/prisma";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { isValidEmail, normalizePhone } from "../utils/customer";
+import { roundMoney, SaleError } from "../utils/sale";
+import { parsePageSize, parseSaleCursor } from "../utils/sale_filter";
+
+// Resultados máximos de la búsqueda por teléfono en caja
+const CUSTOMER_SEARCH_LIMIT = 10;
+const FAVORITE_PRODUCTS_LIMIT = 5;
+
+const customerSelect = {
+    id: true,
+    created_at: true,
+    updated_at: true,
+    name: true,
+    phone: true,
+    email: true,
+    is_active: true,
+    branch_id: true,
+};
+
+const formatCustomer = (customer: any) => ({
+    ...customer,
+    id: bufferToUuid(Buffer.from(customer.id)),
+    branch_id: bufferToUuid(Buffer.from(customer.branch_id)),
+});
+
+export const CustomerController = {
+    async createCustomer(req: any, res: any) {
+        const { name, phone, email, branch_id } = req.body;
+        try {
+            const normalizedPhone = normalizePhone(phone);
+            if (!name || !String(name).trim()) {
+                return res.status(400).json({ message: "El nombre es obligatorio" });
+            }
+            if (normalizedPhone.length < 7 || normalizedPhone.length > 20) {
+                return res.status(400).json({ message: "El teléfono es inválido" });
+            }
+            if (email && !isValidEmail(email)) {
+                return res.status(400).json({ message: "El correo electrónico es inválido" });
+            }
+
+            const existingCustomer = await prisma.customer.findFirst({
+                where: {
+                    phone: normalizedPhone,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+            });
+
+            if (existingCustomer) {
+                return res
+                    .status(409)
+                    .json({ message: existingCustomer.is_active
+                        ? "Ya existe un cliente con ese teléfono"
+                        : "Ya existe un cliente dado de baja con ese teléfono; reactívelo en lugar de crear uno nuevo" });
+            }
+
+            const newCustomer = await prisma.customer.create({
+                data: {
+                    id: uuidToBuffer(uuidv4()),
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                    name: String(name).trim(),
+                    phone: normalizedPhone,
+                    email: email ? String(email).trim().toLowerCase() : null,
+                    is_active: true,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+                select: customerSelect,
+            });
+
+            res.status(200).json(formatCustomer(newCustomer));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getCustomers(req: any, res: any) {
+        const { branch_id, search, include_inactive } = req.query;
+        try {
+            const whereClause: any = {};
+            if (branch_id) whereClause.branch_id = uuidToBuffer(branch_id);
+            if (include_inactive !== "true") whereClause.is_active = true;
+            if (search) {
+                const searchPhone = normalizePhone(search);
+                whereClause.OR = [
+                    { name: { contains: String(search) } },
+                    { email: { contains: String(search) } },
+                    ...(searchPhone ? [{ phone: { contains: searchPhone } }] : []),
+                ];
+            }
+
+            const customers = await prisma.customer.findMany({
+                where: whereClause,
+                orderBy: {
+                    name: 'asc'
+                },
+                select: customerSelect,
+            });
+
+            res.status(200).json(customers.map(formatCustomer));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Búsqueda en caja: acepta el teléfono completo o parcial, con o sin espacios y guiones
+    async searchByPhone(req: any, res: any) {
+        const { phone, branch_id } = req.query;
+        try {
+            const normalizedPhone = normalizePhone(phone);
+            if (normalizedPhone.length < 3) {
+                return res.status(400).json({ message: "Capture al menos 3 dígitos del teléfono" });
+            }
+
+            const customers = await prisma.customer.findMany({
+                where: {
+                    phone: {
+                        contains: normalizedPhone
+                    },
+                    is_active: true,
+                    branch_id: branch_id ? uuidToBuffer(branch_id) : undefined,
+                },
+                orderBy: {
+                    name: 'asc'
+                },
+                take: CUSTOMER_SEARCH_LIMIT,
+                select: customerSelect,
+            });
+
+            // La coincidencia exacta va primero
+            const sortedCustomers = [
+                ...customers.filter((customer) => customer.phone === normalizedPhone),
+                ...customers.filter((customer) => customer.phone !== normalizedPhone),
+            ];
+
+            res.status(200).json(sortedCustomers.map(formatCustomer));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async updateCustomer(req: any, res: any) {
+        const { id, name, phone, email, is_active } = req.body;
+        try {
+            const existingCustomer = await prisma.customer.findUnique({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+            });
+
+            if (!existingCustomer) {
+                return res.status(404).json({ message: "Cliente no encontrado" });
+            }
+            if (name !== undefined && !String(name).trim()) {
+                return res.status(400).json({ message: "El nombre es obligatorio" });
+            }
+            if (email && !isValidEmail(email)) {
+                return res.status(400).json({ message: "El correo electrónico es inválido" });
+            }
+
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+
+            if (phone !== undefined) {
+                const normalizedPhone = normalizePhone(phone);
+                if (normalizedPhone.length < 7 || normalizedPhone.length > 20) {
+                    return res.status(400).json({ message: "El teléfono es inválido" });
+                }
+
+                const duplicatedCustomer = await prisma.customer.findFirst({
+                    where: {
+                        phone: normalizedPhone,
+                        branch_id: existingCustomer.branch_id,
+                        id: {
+                            not: existingCustomer.id
+                        },
+                    },
+                });
+
+                if (duplicatedCustomer) {
+                    return res.status(409).json({ message: "Ya existe un cliente con ese teléfono" });
+                }
+                updateData.phone = normalizedPhone;
+            }
+            if (name !== undefined) updateData.name = String(name).trim();
+            if (email !== undefined) updateData.email = email ? String(email).trim().toLowerCase() : null;
+            if (is_active !== undefined) updateData.is_active = is_active;
+
+            const updatedCustomer = await prisma.customer.update({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+                data: updateData,
+                select: customerSelect,
+            });
+
+            res.status(200).json(formatCustomer(updatedCustomer));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Da de baja al cliente sin borrarlo: sus ventas y su historial de puntos se conservan,
+    // pero ya no aparece en la búsqueda ni se puede ligar a nuevas ventas
+    async deleteCustomer(req: any, res: any) {
+        const { id } = req.body;
+        try {
+            const existingCustomer = await prisma.customer.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                }
+            });
+
+            if (!existingCustomer) {
+                return res.status(404).json({ message: "Cliente no encontrado" });
+            }
+
+            await prisma.customer.update({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                data: {
+                    is_active: false,
+                    updated_at: new Date()
+                }
+            });
+
+            res.status(200).json({ message: "Cliente dado de baja exitosamente" });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Historial del cliente: gasto acumulado (neto de devoluciones), visitas, productos favoritos
+    // y sus ventas de la más reciente a la más antigua, paginadas por cursor como el historial de ventas
+    async getCustomerHistory(req: any, res: any) {
+        const { id } = req.params;
+        const { cursor, limit } = req.query;
+        try {
+            const pageSize = parsePageSize(limit);
+            const cursorId = parseSaleCursor(cursor);
+
+            const customer = await prisma.customer.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                select: customerSelect,
+            });
+
+            if (!customer) {
+                return res.status(404).json({ message: "Cliente no encontrado" });
+            }
+
+            // Las órdenes abiertas y las ventas canceladas no cuentan como compras
+            const purchaseFilter = {
+                customer_id: customer.id,
+                status: {
+                    notIn: ["open" as const, "voided" as const]
+                }
+            };
+
+            const [purchases, refunds, favoriteLines] = await Promise.all([
+                prisma.sale.aggregate({
+                    where: purchaseFilter,
+                    _count: {
+                        _all: true
+                    },
+                    _sum: {
+                        total: true
+                    },
+                    _min: {
+                        created_at: true
+                    },
+                    _max: {
+                        created_at: true
+                    }
+                }),
+                prisma.sale_refund.aggregate({
+                    where: {
+                        sale: purchaseFilter
+                    },
+                    _sum: {
+                        total: true
+                    }
+                }),
+                prisma.sale_detail.groupBy({
+                    by: ['product_id', 'combo_id'],
+                    // Las tarjetas de regalo compradas no son productos favoritos
+                    where: {
+                        sale: purchaseFilter,
+                        gift_card_id: null
+                    },
+                    _sum: {
+                        amount: true
+                    },
+                    _count: {
+                        _all: true
+                    },
+                    orderBy: {
+                        _sum: {
+                            amount: 'desc'
+                        }
+                    },
+                    take: FAVORITE_PRODUCTS_LIMIT,
+                }),
+            ]);
+
+            const [products, combos] = await Promise.all([
+                prisma.product.findMany({
+                    where: {
+                        id: {
+                            in: favoriteLines.filter((line) => line.product_id).map((line) => line.product_id)
+                        }
+                    },
+                    select: {
+                        id: true,
+                        name: true
+                    }
+                }),
+                prisma.combo.findMany({
+                    where: {
+                        id: {
+                            in: favoriteLines.filter((line) => line.combo_id).map((line) => line.combo_id)
+                        }
+                    },
+                    select: {
+                        id: true,
+                        name: true
+                    }
+                }),
+            ]);
+
+            const namesById = new Map<string, string>();
+            [...products, ...combos].forEach((item) => namesById.set(bufferToUuid(Buffer.from(item.id)), item.name));
+
+            const favoriteProducts = favoriteLines.map((line) => {
+                const itemId = line.product_id || line.combo_id;
+                const itemUuid = itemId ? bufferToUuid(Buffer.from(itemId)) : null;
+                return {
+                    id: itemUuid,
+                    type: line.product_id ? 'product' : 'combo',
+                    name: namesById.get(itemUuid) || 'Desconocido',
+                    quantity: line._sum.amount || 0,
+                    times_ordered: line._count._all,
+                };
+            });
+
+            const sales = await prisma.sale.findMany({
+                where: {
+                    customer_id: customer.id,
+                    status: {
+                        not: "open"
+                    }
+                },
+                orderBy: [
+                    { created_at: 'desc' },
+                    { id: 'desc' },
+                ],
+                cursor: cursorId ? {
+                    id: cursorId
+                } : undefined,
+                skip: cursorId ? 1 : 0,
+                take: pageSize + 1,
+                select: {
+                    id: true,
+                    created_at: true,
+                    ticket_number: true,
+                    business_date: true,
+                    order_type: true,
+                    status: true,
+                    payment_method: true,
+                    total: true,
+                    sale_detail: {
+                        select: {
+                            amount: true,
+                            subtotal: true,
+                            gift_card_id: true,
+                            product: {
+                                select: {
+                                    name: true
+                                }
+                            },
+                            combo: {
+                                select: {
+                                    name: true
+                                }
+                            }
+                        }
+                    }
+                }
+            });
+
+            const hasMore = sales.length > pageSize;
+            const formattedSales = (hasMore ? sales.slice(0, pageSize) : sales).map((sale) => ({
+                ...sale,
+                id: bufferToUuid(Buffer.from(sale.id)),
+                business_date: sale.business_date ? sale.business_date.toISOString().slice(0, 10) : null,
+                sale_detail: sale.sale_detail.map((detail) => ({
+                    name: detail.product?.name || detail.combo?.name || (detail.gift_card_id ? 'Tarjeta de regalo' : 'Desconocido'),
+                    amount: detail.amount,
+                    subtotal: detail.subtotal,
+                })),
+            }));
+
+            const visitCount = purchases._count._all;
+            const lifetimeSpend = roundMoney((purchases._sum.total || 0) - (refunds._sum.total || 0));
+
+            res.status(200).json({
+                customer: formatCustomer(customer),
+                visit_count: visitCount,
+                lifetime_spend: lifetimeSpend,
+                average_ticket: visitCount > 0 ? roundMoney(lifetimeSpend / visitCount) : 0,
+                first_visit: purchases._min.created_at,
+                last_visit: purchases._max.created_at,
+                favorite_products: favoriteProducts,
+                sales: formattedSales,
+                next_cursor: hasMore ? formattedSales[formattedSales.length - 1].id : null,
+            });
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
@@ -1,11 +1,17 @@
 import { Request, Response } from "express";
 import prisma from "../lib/prisma";
+import { describePaymentTotals, getPaymentMethods, sumPaymentsByMethod } from "../utils/payment";
+import { uuidToBuffer } from "../utils/common";
+import { ORDER_TYPES } from "../utils/order";
+import { getRefundAmount, refundAmountSelect } from "../utils/report";
+import { order_type } from "@prisma/client";
 
 export class DashboardController {
   // Get dashboard statistics
   async getStats(req: Request, res: Response) {
     try {
       const branchId = req.query.branch_id as string | undefined;
+      const orderType = req.query.order_type as string | undefined;
       const period = (req.query.period as string) || 'today'; // Default to 'today'
       const customStartDate = req.query.startDate as string | undefined;
       const customEndDate = req.query.endDate as string | undefined;
@@ -78,18 +84,20 @@ export class DashboardController {
           return res.status(400).json({ error: 'Invalid period. Use: today, week, month, or custom' });
       }
 
-      // Build where clause for branch filter - simplified
-      const whereClause: any = {};
-      // For now, don't filter by branch to debug
-      // if (branchId) {
-      //   whereClause.user = {
-      //     user_branch: {
-      //       some: {
-      //         branch_id: Buffer.from(branchId, 'hex')
-      //       }
-      //     }
-      //   };
-      // }
+      // Build where clause for branch filter
+      // Open orders are not counted until they are closed
+      const whereClause: any = {
+        status: { not: 'open' },
+      };
+      if (branchId) {
+        whereClause.branch_id = uuidToBuffer(branchId);
+      }
+      if (orderType) {
+        if (!ORDER_TYPES.includes(orderType as order_type)) {
+          return res.status(400).json({ error: 'Invalid order_type. Use: dine_in, takeout, or delivery' });
+        }
+        whereClause.order_type = orderType;
+      }
 
       // Get sales for the selected period
       const sales = await prisma.sale.findMany({
@@ -100,6 +108,9 @@ export class DashboardController {
             lte: endDate,
           },
         },
+        include: {
+          sale_payment: true,
+        },
       });
 
       // Get sale details for the selected period
@@ -115,12 +126,69 @@ export class DashboardController {
         },
       });
 
-      // Calculate stats
-      const totalSales = sales.reduce((sum, sale) => sum + sale.total, 0);
+      // Voids and refunds in the period are reported as negative adjustments
+      const voidedSales = await prisma.sale.aggregate({
+        where: {
+          ...whereClause,
+          voided_at: {
+            gte: startDate,
+            lte: endDate,
+          },
+        },
+        _sum: {
+          total: true,
+          gift_card_total: true,
+        },
+      });
+
+      // Returned gift cards are cancelled liability, not refunded sales
+      const refunds = await prisma.sale_refund.findMany({
+        where: {
+          created_at: {
+            gte: startDate,
+            lte: endDate,
+          },
+          sale: {
+            ...whereClause,
+          },
+        },
+        select: refundAmountSelect,
+      });
+
+      const adjustments = {
+        voids: -((voidedSales._sum.total || 0) - (voidedSales._sum.gift_card_total || 0)),
+        refunds: -refunds.reduce((sum, refund) => sum + getRefundAmount(refund), 0),
+      };
+
+      // Calculate stats; gross sales are before discounts, net sales after discounts.
+      // Gift cards sold are prepaid balance (a liability), so they are reported apart from sales;
+      // the revenue is counted when the card is used to pay for products.
+      const grossSales = sales.reduce((sum, sale) => sum + sale.total - sale.gift_card_total + sale.discount_total, 0);
+      const discounts = sales.reduce((sum, sale) => sum + sale.discount_total, 0);
+      const giftCardsSold = sales.reduce((sum, sale) => sum + sale.gift_card_total, 0);
+      const netSales = grossSales - discounts;
+      const totalSales = netSales + adjustments.voids + adjustments.refunds;
       const orderCount = sales.length;
-      const productsSold = saleDetails.reduce((sum, detail) => sum + detail.amount, 0);
+      const productsSold = saleDetails
+        .filter((detail) => !detail.gift_card_id)
+        .reduce((sum, detail) => sum + detail.amount, 0);
       const avgTicket = orderCount > 0 ? totalSales / orderCount : 0;
 
+      // Totals by tender, so split payments are counted under each method
+      const paymentMethodTotals = sumPaymentsByMethod(sales);
+      const paymentMethods = await getPaymentMethods(prisma, branchId ? uuidToBuffer(branchId) : null);
+
+      // Revenue and ticket count by order type
+      const orderTypes = ORDER_TYPES.map((type) => {
+        const typeSales = sales.filter((sale) => sale.order_type === type);
+        return {
+          orderType: type,
+          orders: typeSales.length,
+          revenue: typeSales.reduce((sum, sale) => sum + sale.total - sale.gift_card_total, 0).toFixed(2),
+          surcharges: typeSales.reduce((sum, sale) => sum + sale.surcharge_total, 0).toFixed(2),
+        };
+      });
+
       // Get top 5 product types
       const saleDetailsWithProducts = await prisma.sale_detail.findMany({
         where: {
@@ -211,10 +279,21 @@ export class DashboardController {
         period,
         startDate: startDate.toISOString(),
         endDate: endDate.toISOString(),
+        grossSales: grossSales.toFixed(2),
+        discounts: discounts.toFixed(2),
+        netSales: netSales.toFixed(2),
+        adjustments: {
+          voids: adjustments.voids.toFixed(2),
+          refunds: adjustments.refunds.toFixed(2),
+        },
         totalSales: totalSales.toFixed(2),
+        giftCardsSold: giftCardsSold.toFixed(2),
         orders: orderCount,
         productsSold: productsSold,
         avgTicket: avgTicket.toFixed(2),
+        paymentMethodTotals,
+        paymentMethods: describePaymentTotals(paymentMethodTotals, paymentMethods),
+        orderTypes,
         topProducts,
         topCombos,
       });
@@ -0,0 +1,300 @@
+import prisma from "../lib/prisma";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { computeDiscountAmount, SaleError } from "../utils/sale";
+
+const DISCOUNT_TYPES = ["percent", "fixed"];
+
+const promoCodeSelect = {
+    id: true,
+    code: true,
+    description: true,
+    discount_type: true,
+    value: true,
+    starts_at: true,
+    ends_at: true,
+    max_uses: true,
+    used_count: true,
+    is_active: true,
+    branch_id: true,
+};
+
+const formatPromoCode = (promoCode: any) => ({
+    ...promoCode,
+    id: bufferToUuid(Buffer.from(promoCode.id)),
+    branch_id: bufferToUuid(Buffer.from(promoCode.branch_id)),
+});
+
+export const DiscountController = {
+    async createDiscountReason(req: any, res: any) {
+        const { code, name, branch_id } = req.body;
+        try {
+            if (!code || !name) {
+                return res.status(400).json({ message: "El código y el nombre son obligatorios" });
+            }
+
+            const normalizedCode = String(code).trim().toLowerCase();
+            const existingDiscountReason = await prisma.discount_reason.findFirst({
+                where: {
+                    code: normalizedCode,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+            });
+
+            if (existingDiscountReason) {
+                return res
+                    .status(409)
+                    .json({ message: "El motivo de descuento ya se encuentra registrado" });
+            }
+
+            const newDiscountReason = await prisma.discount_reason.create({
+                data: {
+                    id: uuidToBuffer(uuidv4()),
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                    code: normalizedCode,
+                    name: name,
+                    is_active: true,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+                select: {
+                    id: true,
+                    code: true,
+                    name: true,
+                    is_active: true,
+                    branch_id: true,
+                },
+            });
+
+            const formattedDiscountReason = {
+                ...newDiscountReason,
+                id: bufferToUuid(Buffer.from(newDiscountReason.id)),
+                branch_id: bufferToUuid(Buffer.from(newDiscountReason.branch_id)),
+            };
+
+            res.status(200).json(formattedDiscountReason);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getDiscountReasons(req: any, res: any) {
+        const { branch_id } = req.query;
+        try {
+            const discountReasons = await prisma.discount_reason.findMany({
+                where: branch_id ? { branch_id: uuidToBuffer(branch_id) } : {},
+                orderBy: {
+                    name: 'asc'
+                },
+                select: {
+                    id: true,
+                    code: true,
+                    name: true,
+                    is_active: true,
+                    branch_id: true,
+                },
+            });
+
+            const formattedDiscountReasons = discountReasons.map((discountReason) => ({
+                ...discountReason,
+                id: bufferToUuid(Buffer.from(discountReason.id)),
+                branch_id: bufferToUuid(Buffer.from(discountReason.branch_id)),
+            }));
+
+            res.status(200).json(formattedDiscountReasons);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async updateDiscountReason(req: any, res: any) {
+        const { id, name, is_active } = req.body;
+        try {
+            const existingDiscountReason = await prisma.discount_reason.findUnique({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+            });
+
+            if (!existingDiscountReason) {
+                return res.status(404).json({ message: "Motivo de descuento no encontrado" });
+            }
+
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+
+            if (name !== undefined) updateData.name = name;
+            if (is_active !== undefined) updateData.is_active = is_active;
+
+            const updatedDiscountReason = await prisma.discount_reason.update({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+                data: updateData,
+                select: {
+                    id: true,
+                    code: true,
+                    name: true,
+                    is_active: true,
+                    branch_id: true,
+                },
+            });
+
+            const formattedDiscountReason = {
+                ...updatedDiscountReason,
+                id: bufferToUuid(Buffer.from(updatedDiscountReason.id)),
+                branch_id: bufferToUuid(Buffer.from(updatedDiscountReason.branch_id)),
+            };
+
+            res.status(200).json(formattedDiscountReason);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async createPromoCode(req: any, res: any) {
+        const { code, description, discount_type, value, starts_at, ends_at, max_uses, branch_id } = req.body;
+        try {
+            if (!code || !description) {
+                return res.status(400).json({ message: "El código y la descripción son obligatorios" });
+            }
+            if (!DISCOUNT_TYPES.includes(discount_type)) {
+                return res.status(400).json({ message: "Tipo de descuento inválido. Use percent o fixed" });
+            }
+            if (!(Number(value) > 0) || (discount_type === "percent" && Number(value) > 100)) {
+                return res.status(400).json({ message: "El valor del descuento es inválido" });
+            }
+            if (max_uses !== undefined && max_uses !== null && !(Number.isInteger(max_uses) && max_uses > 0)) {
+                return res.status(400).json({ message: "El límite de usos es inválido" });
+            }
+
+            const normalizedCode = String(code).trim().toUpperCase();
+            const existingPromoCode = await prisma.promo_code.findFirst({
+                where: {
+                    code: normalizedCode,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+            });
+
+            if (existingPromoCode) {
+                return res
+                    .status(409)
+                    .json({ message: "El código promocional ya se encuentra registrado" });
+            }
+
+            const newPromoCode = await prisma.promo_code.create({
+                data: {
+                    id: uuidToBuffer(uuidv4()),
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                    code: normalizedCode,
+                    description: description,
+                    discount_type: discount_type,
+                    value: Number(value),
+                    starts_at: starts_at ? new Date(starts_at) : null,
+                    ends_at: ends_at ? new Date(ends_at) : null,
+                    max_uses: max_uses ?? null,
+                    used_count: 0,
+                    is_active: true,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+                select: promoCodeSelect,
+            });
+
+            res.status(200).json(formatPromoCode(newPromoCode));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getPromoCodes(req: any, res: any) {
+        const { branch_id } = req.query;
+        try {
+            const promoCodes = await prisma.promo_code.findMany({
+                where: branch_id ? { branch_id: uuidToBuffer(branch_id) } : {},
+                orderBy: {
+                    created_at: 'desc'
+                },
+                select: promoCodeSelect,
+            });
+
+            res.status(200).json(promoCodes.map(formatPromoCode));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async updatePromoCode(req: any, res: any) {
+        const { id, description, value, starts_at, ends_at, max_uses, is_active } = req.body;
+        try {
+            const existingPromoCode = await prisma.promo_code.findUnique({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+            });
+
+            if (!existingPromoCode) {
+                return res.status(404).json({ message: "Código promocional no encontrado" });
+            }
+
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+
+            if (value !== undefined) {
+                if (!(Number(value) > 0) || (existingPromoCode.discount_type === "percent" && Number(value) > 100)) {
+                    return res.status(400).json({ message: "El valor del descuento es inválido" });
+                }
+                updateData.value = Number(value);
+            }
+            if (description !== undefined) updateData.description = description;
+            if (starts_at !== undefined) updateData.starts_at = starts_at ? new Date(starts_at) : null;
+            if (ends_at !== undefined) updateData.ends_at = ends_at ? new Date(ends_at) : null;
+            if (max_uses !== undefined) updateData.max_uses = max_uses;
+            if (is_active !== undefined) updateData.is_active = is_active;
+
+            const updatedPromoCode = await prisma.promo_code.update({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+                data: updateData,
+                select: promoCodeSelect,
+            });
+
+            res.status(200).json(formatPromoCode(updatedPromoCode));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Verifica un código promocional sin consumir un uso; el uso se registra al cobrar la venta
+    async validatePromoCode(req: any, res: any) {
+        const { code, branch_id, amount } = req.body;
+        try {
+            const promoCode = await prisma.promo_code.findFirst({
+                where: {
+                    code: String(code || '').trim().toUpperCase(),
+                    branch_id: uuidToBuffer(branch_id),
+                },
+                select: promoCodeSelect,
+            });
+
+            const now = new Date();
+            if (!promoCode || !promoCode.is_active) {
+                return res.status(404).json({ message: "El código promocional no existe o no está activo" });
+            }
+            if ((promoCode.starts_at && promoCode.starts_at > now) || (promoCode.ends_at && promoCode.ends_at < now)) {
+                return res.status(400).json({ message: "El código promocional no está vigente" });
+            }
+            if (promoCode.max_uses !== null && promoCode.used_count >= promoCode.max_uses) {
+                return res.status(400).json({ message: "El código promocional alcanzó su límite de usos" });
+            }
+
+            const discountAmount = Number(amount) > 0
+                ? computeDiscountAmount(Number(amount), { type: promoCode.discount_type, value: promoCode.value })
+                : null;
+
+            res.status(200).json({ ...formatPromoCode(promoCode), discount_amount: discountAmount });
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
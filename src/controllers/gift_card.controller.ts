@@ -0,0 +1,160 @@
+import prisma from "../lib/prisma";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { normalizeGiftCardCode } from "../utils/gift_card";
+
+// Las tarjetas se emiten al venderlas como línea de una orden (gift_card_value en la línea)
+// y se usan como forma de pago "gift_card" indicando gift_card_code en el pago
+
+const giftCardSelect = {
+    id: true,
+    created_at: true,
+    updated_at: true,
+    code: true,
+    initial_balance: true,
+    balance: true,
+    is_active: true,
+    branch_id: true,
+    customer_id: true,
+};
+
+const formatGiftCard = (giftCard: any) => ({
+    ...giftCard,
+    id: bufferToUuid(Buffer.from(giftCard.id)),
+    branch_id: bufferToUuid(Buffer.from(giftCard.branch_id)),
+    customer_id: giftCard.customer_id ? bufferToUuid(Buffer.from(giftCard.customer_id)) : null,
+});
+
+export const GiftCardController = {
+    async getGiftCards(req: any, res: any) {
+        const { branch_id, customer_id, include_inactive } = req.query;
+        try {
+            const whereClause: any = {};
+            if (branch_id) whereClause.branch_id = uuidToBuffer(branch_id);
+            if (customer_id) whereClause.customer_id = uuidToBuffer(customer_id);
+            if (include_inactive !== "true") whereClause.is_active = true;
+
+            const giftCards = await prisma.gift_card.findMany({
+                where: whereClause,
+                orderBy: {
+                    created_at: 'desc'
+                },
+                select: giftCardSelect,
+            });
+
+            res.status(200).json(giftCards.map(formatGiftCard));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Consulta de saldo en caja por código; acepta el código con espacios o guiones
+    async getBalance(req: any, res: any) {
+        const { code } = req.query;
+        try {
+            const giftCard = await prisma.gift_card.findUnique({
+                where: {
+                    code: normalizeGiftCardCode(code)
+                },
+                select: giftCardSelect,
+            });
+
+            if (!giftCard) {
+                return res.status(404).json({ message: "Tarjeta de regalo no encontrada" });
+            }
+
+            res.status(200).json(formatGiftCard(giftCard));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Historial completo de movimientos de la tarjeta, del más reciente al más antiguo
+    async getTransactions(req: any, res: any) {
+        const { id } = req.params;
+        try {
+            const giftCard = await prisma.gift_card.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                select: {
+                    ...giftCardSelect,
+                    gift_card_transaction: {
+                        orderBy: [
+                            { created_at: 'desc' as const },
+                            { id: 'desc' as const },
+                        ],
+                        select: {
+                            id: true,
+                            created_at: true,
+                            type: true,
+                            amount: true,
+                            balance_after: true,
+                            note: true,
+                            sale_id: true,
+                            sale: {
+                                select: {
+                                    ticket_number: true,
+                                    business_date: true,
+                                }
+                            }
+                        }
+                    }
+                }
+            });
+
+            if (!giftCard) {
+                return res.status(404).json({ message: "Tarjeta de regalo no encontrada" });
+            }
+
+            const { gift_card_transaction, ...card } = giftCard;
+            res.status(200).json({
+                ...formatGiftCard(card),
+                transactions: gift_card_transaction.map((transaction) => ({
+                    ...transaction,
+                    id: bufferToUuid(Buffer.from(transaction.id)),
+                    sale_id: transaction.sale_id ? bufferToUuid(Buffer.from(transaction.sale_id)) : null,
+                    sale: transaction.sale ? {
+                        ticket_number: transaction.sale.ticket_number,
+                        business_date: transaction.sale.business_date ? transaction.sale.business_date.toISOString().slice(0, 10) : null,
+                    } : null,
+                })),
+            });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Bloquea o reactiva una tarjeta (por ejemplo, si el cliente la reporta como perdida); el saldo se conserva
+    async updateGiftCard(req: any, res: any) {
+        const { id, is_active, customer_id } = req.body;
+        try {
+            const existingGiftCard = await prisma.gift_card.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                }
+            });
+
+            if (!existingGiftCard) {
+                return res.status(404).json({ message: "Tarjeta de regalo no encontrada" });
+            }
+            if (is_active === true && existingGiftCard.balance === 0 && existingGiftCard.initial_balance > 0 && !existingGiftCard.is_active) {
+                return res.status(409).json({ message: "La tarjeta fue cancelada y no se puede reactivar" });
+            }
+
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+            if (is_active !== undefined) updateData.is_active = is_active;
+            if (customer_id !== undefined) updateData.customer_id = customer_id ? uuidToBuffer(customer_id) : null;
+
+            const updatedGiftCard = await prisma.gift_card.update({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                data: updateData,
+                select: giftCardSelect,
+            });
+
+            res.status(200).json(formatGiftCard(updatedGiftCard));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
@@ -14,6 +14,7 @@ const mexicoToUTC = (mexicoDate: Date): Date => {
 };
 
 // Helper function para verificar si una venta ocurrió después de la última actualización del ingrediente
+// Se usa la fecha de la venta (sale.created_at), que en ventas sincronizadas sin conexión es la fecha original de captura
 const isSaleAfterIngredientUpdate = (saleDate: Date, ingredientUpdatedAt: Date | null): boolean => {
     if (!ingredientUpdatedAt) return true; // Si no hay fecha de actualización, considerar todas las ventas
     
@@ -114,9 +115,13 @@ export const IngredientController = {
             });
 
             // Obtener todas las ventas de productos con sus detalles (incluyendo fecha de venta)
+            // Las órdenes abiertas no consumen inventario hasta cerrarse
             const productSales = await prisma.sale_detail.findMany({
                 where: {
-                    product_id: { not: null }
+                    product_id: { not: null },
+                    sale: {
+                        status: { not: "open" }
+                    }
                 },
                 select: {
                     amount: true,
@@ -124,15 +129,7 @@ export const IngredientController = {
                     sale: {
                         select: {
                             created_at: true, // Fecha de la venta en UTC
-                            user: {
-                                select: {
-                                    user_branch: {
-                                        select: {
-                                            branch_id: true
-                                        }
-                                    }
-                                }
-                            }
+                            branch_id: true
                         }
                     }
                 }
@@ -141,11 +138,30 @@ export const IngredientController = {
             // Obtener todas las ventas de combos (incluyendo fecha de venta)
             const comboSales = await prisma.sale_detail.findMany({
                 where: {
-                    combo_id: { not: null }
+                    combo_id: { not: null },
+                    sale: {
+                        status: { not: "open" }
+                    }
                 },
                 select: {
                     amount: true,
                     note: true,
+                    sale_detail_combo_item: {
+                        select: {
+                            amount: true,
+                            product: {
+                                select: {
+                                    name: true,
+                                    product_ingredient: {
+                                        select: {
+                                            amount: true,
+                                            ingredient_id: true
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    },
                     combo_id: true,
                     combo: {
                         select: {
@@ -178,13 +194,45 @@ export const IngredientController = {
                     sale: {
                         select: {
                             created_at: true, // Fecha de la venta en UTC
-                            user: {
+                            branch_id: true
+                        }
+                    }
+                }
+            });
+
+            // Obtener los modificadores vendidos que agregan o retiran ingredientes
+            const modifierSales = await prisma.sale_detail_modifier.findMany({
+                where: {
+                    modifier: {
+                        modifier_ingredient: {
+                            some: {}
+                        }
+                    },
+                    sale_detail: {
+                        sale: {
+                            status: { not: "open" }
+                        }
+                    }
+                },
+                select: {
+                    name: true,
+                    modifier: {
+                        select: {
+                            modifier_ingredient: {
                                 select: {
-                                    user_branch: {
-                                        select: {
-                                            branch_id: true
-                                        }
-                                    }
+                                    amount: true,
+                                    ingredient_id: true
+                                }
+                            }
+                        }
+                    },
+                    sale_detail: {
+                        select: {
+                            amount: true,
+                            sale: {
+                                select: {
+                                    created_at: true, // Fecha de la venta en UTC
+                                    branch_id: true
                                 }
                             }
                         }
@@ -223,10 +271,8 @@ export const IngredientController = {
                     
                     if (productIngredient) {
                         // Verificar que la venta sea de la misma sucursal del ingrediente
-                        const userBranches = sale.sale.user.user_branch;
-                        const isFromSameBranch = ingredientBranchId && userBranches.some(ub => 
-                            bufferToUuid(Buffer.from(ub.branch_id)) === ingredientBranchId
-                        );
+                        const isFromSameBranch = ingredientBranchId && sale.sale.branch_id &&
+                            bufferToUuid(Buffer.from(sale.sale.branch_id)) === ingredientBranchId;
 
                         // También verificar que el producto sea de la misma sucursal
                         const productBranchId = productIngredient.product.branch_id ? 
@@ -247,12 +293,21 @@ export const IngredientController = {
                         return; // Saltar esta venta porque ocurrió antes de la última actualización
                     }
                     
-                    const userBranches = comboSale.sale.user.user_branch;
-                    const isFromSameBranch = ingredientBranchId && userBranches.some(ub => 
-                        bufferToUuid(Buffer.from(ub.branch_id)) === ingredientBranchId
-                    );
+                    const isFromSameBranch = ingredientBranchId && comboSale.sale.branch_id &&
+                        bufferToUuid(Buffer.from(comboSale.sale.branch_id)) === ingredientBranchId;
 
-                    if (isFromSameBranch && comboSale.combo && comboSale.combo.combo_detail && comboSale.note) {
+                    if (isFromSameBranch && comboSale.sale_detail_combo_item.length > 0) {
+                        // Productos elegidos registrados en la venta: cantidad_combo * cantidad_elegida * cantidad_ingrediente_por_producto
+                        comboSale.sale_detail_combo_item.forEach(comboItem => {
+                            comboItem.product.product_ingredient.forEach(productIngredient => {
+                                if (bufferToUuid(Buffer.from(productIngredient.ingredient_id)) === ingredientId) {
+                                    const consumption = comboSale.amount * comboItem.amount * productIngredient.amount;
+                                    totalConsumed += consumption;
+                                }
+                            });
+                        });
+                    } else if (isFromSameBranch && comboSale.combo && comboSale.combo.combo_detail && comboSale.note) {
+                        // Ventas anteriores sin productos registrados: se identifican por la nota
                         // NUEVO ENFOQUE: Usar la nota para identificar productos específicos y calcular directamente
                         // En lugar de iterar por todos los combo_detail, buscar directamente los productos mencionados
                         
@@ -289,7 +344,6 @@ export const IngredientController = {
                                     if (piIngredientId === ingredientId) {
                                         // Calcular consumo: cantidad_combo * cantidad_en_combo * cantidad_ingrediente_por_producto
                                         const consumption = comboSale.amount * noteProduct.comboDetailAmount * productIngredient.amount;
-                                        console.log(`Venta de combo: ${comboSale.combo.name} -> ${noteProduct.name} - Cantidad: ${comboSale.amount} x ${noteProduct.comboDetailAmount} x ${productIngredient.amount} = ${consumption}`);
                                         totalConsumed += consumption;
                                     }
                                 });
@@ -298,6 +352,24 @@ export const IngredientController = {
                     }
                 });
 
+                // Calcular consumo de los modificadores; una cantidad negativa descuenta lo que el producto dejó de llevar
+                modifierSales.forEach(modifierSale => {
+                    if (!isSaleAfterIngredientUpdate(modifierSale.sale_detail.sale.created_at, ingredientUpdatedAt)) {
+                        return;
+                    }
+
+                    const isFromSameBranch = ingredientBranchId && modifierSale.sale_detail.sale.branch_id &&
+                        bufferToUuid(Buffer.from(modifierSale.sale_detail.sale.branch_id)) === ingredientBranchId;
+                    if (!isFromSameBranch) return;
+
+                    modifierSale.modifier.modifier_ingredient.forEach(modifierIngredient => {
+                        if (bufferToUuid(Buffer.from(modifierIngredient.ingredient_id)) === ingredientId) {
+                            const consumption = modifierSale.sale_detail.amount * modifierIngredient.amount;
+                            totalConsumed += consumption;
+                        }
+                    });
+                });
+
                 // Calcular stock disponible
                 const availableStock = Math.max(0, ingredient.current_stock - totalConsumed);
                 
@@ -353,21 +425,46 @@ export const IngredientController = {
                                     id: true,
                                     name: true,
                                     sale_detail: {
+                                        where: {
+                                            sale: {
+                                                status: { not: "open" },
+                                                branch_id: branchBuffer
+                                            }
+                                        },
                                         select: {
                                             amount: true,
                                             sale: {
                                                 select: {
-                                                    created_at: true,
-                                                    user: {
+                                                    created_at: true
+                                                }
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    },
+                    modifier_ingredient: {
+                        select: {
+                            amount: true,
+                            modifier: {
+                                select: {
+                                    sale_detail_modifier: {
+                                        where: {
+                                            sale_detail: {
+                                                sale: {
+                                                    status: { not: "open" },
+                                                    branch_id: branchBuffer
+                                                }
+                                            }
+                                        },
+                                        select: {
+                                            sale_detail: {
+                                                select: {
+                                                    amount: true,
+                                                    sale: {
                                                         select: {
-                                                            user_branch: {
-                                                                where: {
-                                                                    branch_id: branchBuffer
-                                                                },
-                                                                select: {
-                                                                    branch_id: true
-                                                                }
-                                                            }
+                                                            created_at: true
                                                         }
                                                     }
                                                 }
@@ -381,25 +478,36 @@ export const IngredientController = {
                 },
             });
 
-            // Obtener ventas de combos de usuarios de esta sucursal
+            // Obtener ventas de combos de esta sucursal
             const comboSales = await prisma.sale_detail.findMany({
                 where: {
                     combo_id: {
                         not: null
                     },
                     sale: {
-                        user: {
-                            user_branch: {
-                                some: {
-                                    branch_id: branchBuffer
-                                }
-                            }
-                        }
+                        status: { not: "open" },
+                        branch_id: branchBuffer
                     }
                 },
                 select: {
                     amount: true,
                     note: true,
+                    sale_detail_combo_item: {
+                        select: {
+                            amount: true,
+                            product: {
+                                select: {
+                                    name: true,
+                                    product_ingredient: {
+                                        select: {
+                                            amount: true,
+                                            ingredient_id: true
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    },
                     combo_id: true,
                     combo: {
                         select: {
@@ -454,10 +562,18 @@ export const IngredientController = {
                             continue; // Saltar esta venta
                         }
                         
-                        // Solo considerar ventas de usuarios de esta sucursal
-                        if (saleDetail.sale.user.user_branch.length > 0) {
-                            totalConsumed += saleDetail.amount * productIngredient.amount;
+                        totalConsumed += saleDetail.amount * productIngredient.amount;
+                    }
+                }
+
+                // Calcular consumo de los modificadores vendidos (extras o ingredientes retirados)
+                for (const modifierIngredient of ingredient.modifier_ingredient) {
+                    for (const modifierSale of modifierIngredient.modifier.sale_detail_modifier) {
+                        if (!isSaleAfterIngredientUpdate(modifierSale.sale_detail.sale.created_at, ingredientUpdatedAt)) {
+                            continue;
                         }
+
+                        totalConsumed += modifierSale.sale_detail.amount * modifierIngredient.amount;
                     }
                 }
 
@@ -468,7 +584,17 @@ export const IngredientController = {
                         continue; // Saltar esta venta
                     }
                     
-                    if (comboSale.combo && comboSale.combo.combo_detail && comboSale.note) {
+                    if (comboSale.sale_detail_combo_item.length > 0) {
+                        // Productos elegidos registrados en la venta
+                        for (const comboItem of comboSale.sale_detail_combo_item) {
+                            for (const productIngredient of comboItem.product.product_ingredient) {
+                                if (Buffer.compare(Buffer.from(productIngredient.ingredient_id), ingredientId) === 0) {
+                                    totalConsumed += comboSale.amount * comboItem.amount * productIngredient.amount;
+                                }
+                            }
+                        }
+                    } else if (comboSale.combo && comboSale.combo.combo_detail && comboSale.note) {
+                        // Ventas anteriores sin productos registrados: se identifican por la nota
                         // NUEVO ENFOQUE: Usar la nota para identificar productos específicos y calcular directamente
                         const noteProducts = [];
                         const branchIdStr = bufferToUuid(Buffer.from(branchBuffer));
@@ -515,8 +641,9 @@ export const IngredientController = {
                 // Calcular stock disponible
                 const availableStock = Math.max(0, ingredient.current_stock - totalConsumed);
 
+                const { modifier_ingredient, ...ingredientData } = ingredient;
                 return {
-                    ...ingredient,
+                    ...ingredientData,
                     id: bufferToUuid(Buffer.from(ingredient.id)),
                     branch_id: bufferToUuid(Buffer.from(ingredient.branch_id)),
                     current_stock: ingredient.current_stock,
@@ -573,17 +700,12 @@ export const IngredientController = {
                         branch_id: branchBuffer
                     },
                     sale: {
+                        status: { not: "open" },
                         created_at: {
                             gte: startDate,
                             lte: endDate
                         },
-                        user: {
-                            user_branch: branchBuffer ? {
-                                some: {
-                                    branch_id: branchBuffer
-                                }
-                            } : undefined
-                        }
+                        branch_id: branchBuffer ? branchBuffer : undefined
                     }
                 },
                 select: {
@@ -620,22 +742,36 @@ export const IngredientController = {
                 where: {
                     combo_id: { not: null },
                     sale: {
+                        status: { not: "open" },
                         created_at: {
                             gte: startDate,
                             lte: endDate
                         },
-                        user: {
-                            user_branch: branchBuffer ? {
-                                some: {
-                                    branch_id: branchBuffer
-                                }
-                            } : undefined
-                        }
+                        branch_id: branchBuffer ? branchBuffer : undefined
                     }
                 },
                 select: {
                     amount: true,
                     note: true,
+                    sale_detail_combo_item: {
+                        select: {
+                            amount: true,
+                            product: {
+                                select: {
+                                    name: true,
+                                    product_ingredient: {
+                                        where: {
+                                            ingredient_id: ingredientBuffer
+                                        },
+                                        select: {
+                                            amount: true,
+                                            ingredient_id: true
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    },
                     created_at: true,
                     combo: {
                         select: {
@@ -683,6 +819,64 @@ export const IngredientController = {
             
 
             
+            // Obtener consumo por modificadores (extras o ingredientes retirados)
+            const modifierConsumption = await prisma.sale_detail_modifier.findMany({
+                where: {
+                    modifier: {
+                        modifier_ingredient: {
+                            some: {
+                                ingredient_id: ingredientBuffer
+                            }
+                        }
+                    },
+                    sale_detail: {
+                        sale: {
+                            status: { not: "open" },
+                            created_at: {
+                                gte: startDate,
+                                lte: endDate
+                            },
+                            branch_id: branchBuffer ? branchBuffer : undefined
+                        }
+                    }
+                },
+                select: {
+                    name: true,
+                    modifier: {
+                        select: {
+                            modifier_ingredient: {
+                                where: {
+                                    ingredient_id: ingredientBuffer
+                                },
+                                select: {
+                                    amount: true
+                                }
+                            }
+                        }
+                    },
+                    sale_detail: {
+                        select: {
+                            amount: true,
+                            product: {
+                                select: {
+                                    name: true
+                                }
+                            },
+                            sale: {
+                                select: {
+                                    created_at: true,
+                                    user: {
+                                        select: {
+                                            name: true
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            });
+
             // Procesar consumo de productos directos
             const directConsumption = productConsumption.map(sale => {
                 const consumedAmount = sale.amount * (sale.product?.product_ingredient[0]?.amount || 0);
@@ -699,7 +893,25 @@ export const IngredientController = {
             // Procesar consumo de combos basado en combo_detail
             const comboConsumptionProcessed = [];
             for (const comboSale of comboConsumption) {
-                if (comboSale.combo && comboSale.combo.combo_detail && comboSale.note) {
+                if (comboSale.sale_detail_combo_item.length > 0) {
+                    // Productos elegidos registrados en la venta (ya filtrados por ingredient_id en la consulta)
+                    comboSale.sale_detail_combo_item.forEach(comboItem => {
+                        comboItem.product.product_ingredient.forEach(productIngredient => {
+                            comboConsumptionProcessed.push({
+                                date: comboSale.sale.created_at,
+                                type: 'combo',
+                                item_name: `${comboSale.combo.name} -> ${comboItem.product.name}`,
+                                quantity_sold: comboSale.amount,
+                                combo_detail_amount: comboItem.amount,
+                                ingredient_per_product: productIngredient.amount,
+                                ingredient_consumed: comboSale.amount * comboItem.amount * productIngredient.amount,
+                                user: comboSale.sale.user.name,
+                                note: comboSale.note
+                            });
+                        });
+                    });
+                } else if (comboSale.combo && comboSale.combo.combo_detail && comboSale.note) {
+                    // Ventas anteriores sin productos registrados: se identifican por la nota
                     // NUEVO ENFOQUE: Usar la nota para identificar productos específicos y calcular directamente
                     const noteProducts = [];
                     const targetBranchId = branchBuffer ? bufferToUuid(Buffer.from(branchBuffer)) : null;
@@ -751,8 +963,21 @@ export const IngredientController = {
                 }
             }
             
+            // Procesar consumo de modificadores; una cantidad negativa descuenta lo que el producto dejó de llevar
+            const modifierConsumptionProcessed = modifierConsumption.map(modifierSale => {
+                const ingredientPerUnit = modifierSale.modifier.modifier_ingredient[0]?.amount || 0;
+                return {
+                    date: modifierSale.sale_detail.sale.created_at,
+                    type: 'modifier',
+                    item_name: `${modifierSale.sale_detail.product?.name || 'Producto desconocido'} + ${modifierSale.name}`,
+                    quantity_sold: modifierSale.sale_detail.amount,
+                    ingredient_consumed: modifierSale.sale_detail.amount * ingredientPerUnit,
+                    user: modifierSale.sale_detail.sale.user.name
+                };
+            });
+
             // Combinar y ordenar por fecha
-            const allConsumption = [...directConsumption, ...comboConsumptionProcessed]
+            const allConsumption = [...directConsumption, ...comboConsumptionProcessed, ...modifierConsumptionProcessed]
                 .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
             
             // Calcular totales
@@ -775,7 +1000,8 @@ export const IngredientController = {
                     available_stock: availableStock,
                     consumption_by_type: {
                         direct_products: directConsumption.reduce((sum, item) => sum + item.ingredient_consumed, 0),
-                        combos: comboConsumptionProcessed.reduce((sum, item) => sum + item.ingredient_consumed, 0)
+                        combos: comboConsumptionProcessed.reduce((sum, item) => sum + item.ingredient_consumed, 0),
+                        modifiers: modifierConsumptionProcessed.reduce((sum, item) => sum + item.ingredient_consumed, 0)
                     }
                 },
                 consumption_details: allConsumption
@@ -918,16 +1144,11 @@ export const IngredientController = {
                             branch_id: ingredientBranchBuffer
                         },
                         sale: {
+                            status: { not: "open" },
                             created_at: ingredient.updated_at ? {
                                 gt: ingredient.updated_at
                             } : undefined,
-                            user: ingredientBranchBuffer ? {
-                                user_branch: {
-                                    some: {
-                                        branch_id: ingredientBranchBuffer
-                                    }
-                                }
-                            } : undefined
+                            branch_id: ingredientBranchBuffer ? ingredientBranchBuffer : undefined
                         }
                     }
                 });
@@ -938,16 +1159,11 @@ export const IngredientController = {
                         combo_id: { not: null },
                         note: { not: null },
                         sale: {
+                            status: { not: "open" },
                             created_at: ingredient.updated_at ? {
                                 gt: ingredient.updated_at
                             } : undefined,
-                            user: ingredientBranchBuffer ? {
-                                user_branch: {
-                                    some: {
-                                        branch_id: ingredientBranchBuffer
-                                    }
-                                }
-                            } : undefined
+                            branch_id: ingredientBranchBuffer ? ingredientBranchBuffer : undefined
                         }
                     }
                 });
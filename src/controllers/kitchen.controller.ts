@@ -0,0 +1,323 @@
+import prisma from "../lib/prisma";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { getBranchTimeZone, getUserBranchId } from "../utils/branch";
+import { getKitchenTransition, KITCHEN_STALE_HOURS, KITCHEN_STATUSES, secondsBetween } from "../utils/kitchen";
+import { SaleError } from "../utils/sale";
+import { getLocalDayEnd, getLocalDayStart } from "../utils/timezone";
+
+const kitchenLineSelect = {
+    id: true,
+    created_at: true,
+    amount: true,
+    note: true,
+    kitchen_status: true,
+    preparing_at: true,
+    ready_at: true,
+    delivered_at: true,
+    sale_id: true,
+    product: {
+        select: {
+            name: true
+        }
+    },
+    combo: {
+        select: {
+            name: true
+        }
+    },
+    sale_detail_modifier: {
+        select: {
+            name: true
+        },
+        orderBy: {
+            created_at: 'asc' as const
+        }
+    },
+    sale_detail_combo_item: {
+        select: {
+            amount: true,
+            product: {
+                select: {
+                    name: true
+                }
+            }
+        },
+        orderBy: {
+            created_at: 'asc' as const
+        }
+    }
+};
+
+const formatKitchenLine = (line: any) => ({
+    id: bufferToUuid(Buffer.from(line.id)),
+    name: line.product?.name || line.combo?.name || 'Desconocido',
+    type: line.product ? 'product' : 'combo',
+    amount: line.amount,
+    modifiers: line.sale_detail_modifier.map((modifier: any) => modifier.name),
+    combo_items: line.sale_detail_combo_item.map((item: any) => ({ name: item.product.name, amount: item.amount })),
+    note: line.note,
+    kitchen_status: line.kitchen_status,
+    created_at: line.created_at,
+    preparing_at: line.preparing_at,
+    ready_at: line.ready_at,
+    delivered_at: line.delivered_at,
+});
+
+const average = (values: number[]) => {
+    return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+};
+
+export const KitchenController = {
+    // Cola de cocina de la sucursal: líneas recientes sin entregar agrupadas por orden, de la más antigua a la más reciente.
+    // No incluye ventas canceladas o devueltas ni las líneas que ya se devolvieron por completo.
+    async getKitchenQueue(req: any, res: any) {
+        const { branch_id } = req.query;
+        try {
+            const branchId = branch_id ? uuidToBuffer(branch_id) : await getUserBranchId(prisma, req.user.id);
+            if (!branchId) {
+                return res.status(404).json({ message: "Usuario no está asociado a ninguna sucursal" });
+            }
+
+            const queuedLines = await prisma.sale_detail.findMany({
+                where: {
+                    kitchen_status: {
+                        in: ["pending", "preparing", "ready"]
+                    },
+                    sale: {
+                        status: {
+                            notIn: ["voided", "refunded"]
+                        },
+                        branch_id: branchId
+                    }
+                },
+                orderBy: {
+                    created_at: 'asc'
+                },
+                select: {
+                    ...kitchenLineSelect,
+                    sale: {
+                        select: {
+                            created_at: true,
+                            ticket_number: true,
+                            order_type: true,
+                            customer_name: true,
+                            user: {
+                                select: {
+                                    name: true
+                                }
+                            }
+                        }
+                    },
+                    sale_refund_detail: {
+                        select: {
+                            amount: true
+                        }
+                    }
+                }
+            });
+
+            const lines = queuedLines.filter((line) =>
+                line.sale_refund_detail.reduce((sum, refundDetail) => sum + refundDetail.amount, 0) < line.amount
+            );
+
+            const now = new Date();
+            const orders = new Map<string, any>();
+            lines.forEach((line) => {
+                const saleId = bufferToUuid(Buffer.from(line.sale_id));
+                if (!orders.has(saleId)) {
+                    orders.set(saleId, {
+                        sale_id: saleId,
+                        ticket_number: line.sale.ticket_number,
+                        order_type: line.sale.order_type,
+                        customer_name: line.sale.customer_name,
+                        created_at: line.sale.created_at,
+                        cashier: line.sale.user.name,
+                        waiting_seconds: secondsBetween(line.sale.created_at, now),
+                        lines: [],
+                    });
+                }
+                orders.get(saleId).lines.push(formatKitchenLine(line));
+            });
+
+            // El estado de la orden es el de su línea más atrasada. Las órdenes que llevan demasiado tiempo
+            // en la cola se siguen mostrando, marcadas como atrasadas, para que cocina las entregue o las revise
+            const formattedOrders = Array.from(orders.values()).map((order) => ({
+                ...order,
+                is_stale: order.waiting_seconds > KITCHEN_STALE_HOURS * 60 * 60,
+                kitchen_status: KITCHEN_STATUSES[Math.min(...order.lines.map((line: any) => KITCHEN_STATUSES.indexOf(line.kitchen_status)))],
+            }));
+
+            res.status(200).json(formattedOrders);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async updateLineStatus(req: any, res: any) {
+        const { id, status } = req.body;
+        try {
+            const updatedLine = await prisma.$transaction(async (tx) => {
+                const line = await tx.sale_detail.findUnique({
+                    where: {
+                        id: uuidToBuffer(id)
+                    },
+                    select: {
+                        kitchen_status: true,
+                        sale: {
+                            select: {
+                                status: true
+                            }
+                        }
+                    }
+                });
+
+                if (!line) {
+                    throw new SaleError("Detalle de venta no encontrado", 404);
+                }
+                if (line.sale.status === "voided") {
+                    throw new SaleError("La venta fue cancelada", 409);
+                }
+
+                return tx.sale_detail.update({
+                    where: {
+                        id: uuidToBuffer(id)
+                    },
+                    data: getKitchenTransition(line.kitchen_status, status),
+                    select: kitchenLineSelect,
+                });
+            });
+
+            res.status(200).json({
+                ...formatKitchenLine(updatedLine),
+                sale_id: bufferToUuid(Buffer.from(updatedLine.sale_id)),
+            });
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Mueve todas las líneas de la orden que aún no llegan al estado indicado
+    async updateOrderStatus(req: any, res: any) {
+        const { sale_id, status } = req.body;
+        try {
+            if (!KITCHEN_STATUSES.includes(status)) {
+                return res.status(400).json({ message: "Estado inválido. Use pending, preparing, ready o delivered" });
+            }
+
+            const updatedLines = await prisma.$transaction(async (tx) => {
+                const sale = await tx.sale.findUnique({
+                    where: {
+                        id: uuidToBuffer(sale_id)
+                    },
+                    select: {
+                        status: true,
+                        sale_detail: {
+                            select: {
+                                id: true,
+                                kitchen_status: true,
+                            }
+                        }
+                    }
+                });
+
+                if (!sale) {
+                    throw new SaleError("Venta no encontrada", 404);
+                }
+                if (sale.status === "voided") {
+                    throw new SaleError("La venta fue cancelada", 409);
+                }
+
+                const pendingLines = sale.sale_detail.filter((line) =>
+                    KITCHEN_STATUSES.indexOf(line.kitchen_status) < KITCHEN_STATUSES.indexOf(status)
+                );
+                if (pendingLines.length === 0) {
+                    throw new SaleError(`Todas las líneas de la orden ya están en estado ${status} o posterior`, 409);
+                }
+
+                const now = new Date();
+                for (const line of pendingLines) {
+                    await tx.sale_detail.update({
+                        where: {
+                            id: line.id
+                        },
+                        data: getKitchenTransition(line.kitchen_status, status, now),
+                    });
+                }
+
+                return tx.sale_detail.findMany({
+                    where: {
+                        sale_id: uuidToBuffer(sale_id)
+                    },
+                    orderBy: {
+                        created_at: 'asc'
+                    },
+                    select: kitchenLineSelect,
+                });
+            });
+
+            res.status(200).json({
+                sale_id: sale_id,
+                lines: updatedLines.map(formatKitchenLine),
+            });
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Tiempos promedio de preparación del día, en segundos
+    async getKitchenTimes(req: any, res: any) {
+        const { date, branch_id } = req.query;
+        try {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+                return res.status(400).json({ message: "Formato de fecha inválido. Use YYYY-MM-DD (ejemplo: 2023-10-18)" });
+            }
+
+            const branchId = branch_id ? uuidToBuffer(branch_id) : await getUserBranchId(prisma, req.user.id);
+            if (!branchId) {
+                return res.status(404).json({ message: "Usuario no está asociado a ninguna sucursal" });
+            }
+
+            // El día se delimita en la zona horaria de la sucursal
+            const timeZone = await getBranchTimeZone(prisma, branchId);
+            const lines = await prisma.sale_detail.findMany({
+                where: {
+                    created_at: {
+                        gte: getLocalDayStart(date, timeZone),
+                        lt: getLocalDayEnd(date, timeZone)
+                    },
+                    sale: {
+                        status: {
+                            not: "voided"
+                        },
+                        branch_id: branchId
+                    }
+                },
+                select: {
+                    created_at: true,
+                    preparing_at: true,
+                    ready_at: true,
+                    delivered_at: true,
+                }
+            });
+
+            const durations = (from: string, to: string) => lines
+                .map((line: any) => secondsBetween(line[from], line[to]))
+                .filter((seconds) => seconds !== null);
+
+            res.status(200).json({
+                date: date,
+                lines: lines.length,
+                completed: lines.filter((line) => line.ready_at).length,
+                average_wait_seconds: average(durations('created_at', 'preparing_at')),
+                average_prep_seconds: average(durations('preparing_at', 'ready_at')),
+                average_ready_seconds: average(durations('created_at', 'ready_at')),
+                average_pickup_seconds: average(durations('ready_at', 'delivered_at')),
+            });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
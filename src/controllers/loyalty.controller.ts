@@ -0,0 +1,451 @@
+import prisma from "../lib/prisma";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { expireLoyaltyPoints, getActiveLoyaltyProgram, getLoyaltyBalance } from "../utils/loyalty";
+import { SaleError } from "../utils/sale";
+
+// Movimientos recientes que se muestran en el estado de cuenta del cliente
+const LEDGER_HISTORY_LIMIT = 20;
+
+const programSelect = {
+    id: true,
+    created_at: true,
+    updated_at: true,
+    name: true,
+    expiry_days: true,
+    is_active: true,
+    branch_id: true,
+    loyalty_rule: {
+        select: {
+            id: true,
+            points: true,
+            product_id: true,
+            type_product_id: true,
+        }
+    },
+    loyalty_reward: {
+        select: {
+            id: true,
+            name: true,
+            points_cost: true,
+            is_active: true,
+            product_id: true,
+        }
+    }
+};
+
+const formatRule = (rule: any) => ({
+    ...rule,
+    id: bufferToUuid(Buffer.from(rule.id)),
+    product_id: rule.product_id ? bufferToUuid(Buffer.from(rule.product_id)) : null,
+    type_product_id: rule.type_product_id ? bufferToUuid(Buffer.from(rule.type_product_id)) : null,
+});
+
+const formatReward = (reward: any) => ({
+    ...reward,
+    id: bufferToUuid(Buffer.from(reward.id)),
+    product_id: bufferToUuid(Buffer.from(reward.product_id)),
+});
+
+const formatProgram = (program: any) => ({
+    ...program,
+    id: bufferToUuid(Buffer.from(program.id)),
+    branch_id: bufferToUuid(Buffer.from(program.branch_id)),
+    loyalty_rule: program.loyalty_rule.map(formatRule),
+    loyalty_reward: program.loyalty_reward.map(formatReward),
+});
+
+const isPositiveInteger = (value: any) => Number.isInteger(value) && value > 0;
+
+export const LoyaltyController = {
+    // Cada sucursal tiene a lo sumo un programa activo; expiry_days vacío significa que los puntos no vencen
+    async createProgram(req: any, res: any) {
+        const { name, expiry_days, branch_id } = req.body;
+        try {
+            if (!name || !String(name).trim()) {
+                return res.status(400).json({ message: "El nombre es obligatorio" });
+            }
+            if (expiry_days !== undefined && expiry_days !== null && !isPositiveInteger(expiry_days)) {
+                return res.status(400).json({ message: "Los días de vigencia deben ser un entero mayor a 0" });
+            }
+
+            const activeProgram = await getActiveLoyaltyProgram(prisma, uuidToBuffer(branch_id));
+            if (activeProgram) {
+                return res.status(409).json({ message: "La sucursal ya tiene un programa de lealtad activo" });
+            }
+
+            const newProgram = await prisma.loyalty_program.create({
+                data: {
+                    id: uuidToBuffer(uuidv4()),
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                    name: String(name).trim(),
+                    expiry_days: expiry_days ?? null,
+                    is_active: true,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+                select: programSelect,
+            });
+
+            res.status(200).json(formatProgram(newProgram));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getPrograms(req: any, res: any) {
+        const { branch_id } = req.query;
+        try {
+            const programs = await prisma.loyalty_program.findMany({
+                where: {
+                    branch_id: branch_id ? uuidToBuffer(branch_id) : undefined
+                },
+                orderBy: {
+                    created_at: 'desc'
+                },
+                select: programSelect,
+            });
+
+            res.status(200).json(programs.map(formatProgram));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async updateProgram(req: any, res: any) {
+        const { id, name, expiry_days, is_active } = req.body;
+        try {
+            const existingProgram = await prisma.loyalty_program.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                }
+            });
+
+            if (!existingProgram) {
+                return res.status(404).json({ message: "Programa de lealtad no encontrado" });
+            }
+            if (name !== undefined && !String(name).trim()) {
+                return res.status(400).json({ message: "El nombre es obligatorio" });
+            }
+            if (expiry_days !== undefined && expiry_days !== null && !isPositiveInteger(expiry_days)) {
+                return res.status(400).json({ message: "Los días de vigencia deben ser un entero mayor a 0" });
+            }
+
+            if (is_active === true && !existingProgram.is_active) {
+                const activeProgram = await getActiveLoyaltyProgram(prisma, existingProgram.branch_id);
+                if (activeProgram) {
+                    return res.status(409).json({ message: "La sucursal ya tiene un programa de lealtad activo" });
+                }
+            }
+
+            // El cambio de vigencia aplica a los puntos que se ganen a partir de ahora
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+            if (name !== undefined) updateData.name = String(name).trim();
+            if (expiry_days !== undefined) updateData.expiry_days = expiry_days;
+            if (is_active !== undefined) updateData.is_active = is_active;
+
+            const updatedProgram = await prisma.loyalty_program.update({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                data: updateData,
+                select: programSelect,
+            });
+
+            res.status(200).json(formatProgram(updatedProgram));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Regla de acumulación: puntos por unidad vendida de un producto o de un tipo de producto
+    async createRule(req: any, res: any) {
+        const { program_id, product_id, type_product_id, points } = req.body;
+        try {
+            if (!product_id === !type_product_id) {
+                return res.status(400).json({ message: "Indique un producto o un tipo de producto" });
+            }
+            if (!isPositiveInteger(points)) {
+                return res.status(400).json({ message: "Los puntos deben ser un entero mayor a 0" });
+            }
+
+            const program = await prisma.loyalty_program.findUnique({
+                where: {
+                    id: uuidToBuffer(program_id)
+                }
+            });
+
+            if (!program) {
+                return res.status(404).json({ message: "Programa de lealtad no encontrado" });
+            }
+
+            const existingRule = await prisma.loyalty_rule.findFirst({
+                where: {
+                    program_id: program.id,
+                    product_id: product_id ? uuidToBuffer(product_id) : null,
+                    type_product_id: type_product_id ? uuidToBuffer(type_product_id) : null,
+                }
+            });
+
+            const rule = existingRule
+                ? await prisma.loyalty_rule.update({
+                    where: {
+                        id: existingRule.id
+                    },
+                    data: {
+                        points: points,
+                        updated_at: new Date(),
+                    }
+                })
+                : await prisma.loyalty_rule.create({
+                    data: {
+                        id: uuidToBuffer(uuidv4()),
+                        created_at: new Date(),
+                        updated_at: new Date(),
+                        points: points,
+                        program_id: program.id,
+                        product_id: product_id ? uuidToBuffer(product_id) : null,
+                        type_product_id: type_product_id ? uuidToBuffer(type_product_id) : null,
+                    }
+                });
+
+            res.status(200).json(formatRule({
+                id: rule.id,
+                points: rule.points,
+                product_id: rule.product_id,
+                type_product_id: rule.type_product_id,
+            }));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async deleteRule(req: any, res: any) {
+        const { id } = req.body;
+        try {
+            const existingRule = await prisma.loyalty_rule.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                }
+            });
+
+            if (!existingRule) {
+                return res.status(404).json({ message: "Regla no encontrada" });
+            }
+
+            await prisma.loyalty_rule.delete({
+                where: {
+                    id: uuidToBuffer(id)
+                }
+            });
+
+            res.status(200).json({ message: "Regla eliminada exitosamente" });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Recompensa canjeable: se agrega a la venta como una línea del producto con precio 0
+    async createReward(req: any, res: any) {
+        const { program_id, product_id, name, points_cost } = req.body;
+        try {
+            if (!name || !String(name).trim()) {
+                return res.status(400).json({ message: "El nombre es obligatorio" });
+            }
+            if (!isPositiveInteger(points_cost)) {
+                return res.status(400).json({ message: "El costo en puntos debe ser un entero mayor a 0" });
+            }
+
+            const [program, product] = await Promise.all([
+                prisma.loyalty_program.findUnique({
+                    where: {
+                        id: uuidToBuffer(program_id)
+                    }
+                }),
+                prisma.product.findUnique({
+                    where: {
+                        id: uuidToBuffer(product_id)
+                    }
+                }),
+            ]);
+
+            if (!program) {
+                return res.status(404).json({ message: "Programa de lealtad no encontrado" });
+            }
+            if (!product) {
+                return res.status(404).json({ message: "Producto no encontrado" });
+            }
+
+            const newReward = await prisma.loyalty_reward.create({
+                data: {
+                    id: uuidToBuffer(uuidv4()),
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                    name: String(name).trim(),
+                    points_cost: points_cost,
+                    is_active: true,
+                    program_id: program.id,
+                    product_id: product.id,
+                },
+                select: programSelect.loyalty_reward.select,
+            });
+
+            res.status(200).json(formatReward(newReward));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async updateReward(req: any, res: any) {
+        const { id, name, points_cost, is_active } = req.body;
+        try {
+            const existingReward = await prisma.loyalty_reward.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                }
+            });
+
+            if (!existingReward) {
+                return res.status(404).json({ message: "Recompensa no encontrada" });
+            }
+            if (name !== undefined && !String(name).trim()) {
+                return res.status(400).json({ message: "El nombre es obligatorio" });
+            }
+            if (points_cost !== undefined && !isPositiveInteger(points_cost)) {
+                return res.status(400).json({ message: "El costo en puntos debe ser un entero mayor a 0" });
+            }
+
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+            if (name !== undefined) updateData.name = String(name).trim();
+            if (points_cost !== undefined) updateData.points_cost = points_cost;
+            if (is_active !== undefined) updateData.is_active = is_active;
+
+            const updatedReward = await prisma.loyalty_reward.update({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                data: updateData,
+                select: programSelect.loyalty_reward.select,
+            });
+
+            res.status(200).json(formatReward(updatedReward));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Estado de cuenta del cliente en el programa activo de su sucursal: saldo, próximos vencimientos,
+    // recompensas que ya puede canjear y los movimientos más recientes
+    async getCustomerLoyalty(req: any, res: any) {
+        const { id } = req.params;
+        try {
+            const result = await prisma.$transaction(async (tx) => {
+                const customer = await tx.customer.findUnique({
+                    where: {
+                        id: uuidToBuffer(id)
+                    },
+                    select: {
+                        id: true,
+                        name: true,
+                        branch_id: true,
+                    }
+                });
+
+                if (!customer) {
+                    throw new SaleError("Cliente no encontrado", 404);
+                }
+
+                const program = await getActiveLoyaltyProgram(tx, customer.branch_id);
+                if (!program) {
+                    throw new SaleError("La sucursal no tiene un programa de lealtad activo", 404);
+                }
+
+                // Los puntos vencidos se registran antes de calcular el saldo
+                await expireLoyaltyPoints(tx, customer.id, program.id);
+                const balance = await getLoyaltyBalance(tx, customer.id, program.id);
+
+                const [nextExpiry, rewards, ledger] = await Promise.all([
+                    tx.loyalty_ledger.findFirst({
+                        where: {
+                            customer_id: customer.id,
+                            program_id: program.id,
+                            points: {
+                                gt: 0
+                            },
+                            remaining: {
+                                gt: 0
+                            },
+                            expires_at: {
+                                not: null
+                            }
+                        },
+                        orderBy: {
+                            expires_at: 'asc'
+                        },
+                        select: {
+                            remaining: true,
+                            expires_at: true,
+                        }
+                    }),
+                    tx.loyalty_reward.findMany({
+                        where: {
+                            program_id: program.id,
+                            is_active: true
+                        },
+                        orderBy: {
+                            points_cost: 'asc'
+                        },
+                        select: programSelect.loyalty_reward.select,
+                    }),
+                    tx.loyalty_ledger.findMany({
+                        where: {
+                            customer_id: customer.id,
+                            program_id: program.id
+                        },
+                        orderBy: [
+                            { created_at: 'desc' },
+                            { id: 'desc' },
+                        ],
+                        take: LEDGER_HISTORY_LIMIT,
+                        select: {
+                            id: true,
+                            created_at: true,
+                            type: true,
+                            points: true,
+                            expires_at: true,
+                            note: true,
+                            sale_id: true,
+                        }
+                    }),
+                ]);
+
+                return { customer, program, balance, nextExpiry, rewards, ledger };
+            });
+
+            res.status(200).json({
+                customer_id: bufferToUuid(Buffer.from(result.customer.id)),
+                program: {
+                    id: bufferToUuid(Buffer.from(result.program.id)),
+                    name: result.program.name,
+                    expiry_days: result.program.expiry_days,
+                },
+                balance: result.balance,
+                next_expiration: result.nextExpiry ? {
+                    points: result.nextExpiry.remaining,
+                    expires_at: result.nextExpiry.expires_at,
+                } : null,
+                rewards: result.rewards.map((reward) => ({
+                    ...formatReward(reward),
+                    available: reward.points_cost <= result.balance,
+                })),
+                ledger: result.ledger.map((entry) => ({
+                    ...entry,
+                    id: bufferToUuid(Buffer.from(entry.id)),
+                    sale_id: entry.sale_id ? bufferToUuid(Buffer.from(entry.sale_id)) : null,
+                })),
+            });
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
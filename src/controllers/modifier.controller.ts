@@ -0,0 +1,461 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../lib/prisma";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { SaleError } from "../utils/sale";
+
+// Los modificadores se eligen en la línea de venta con "modifiers": [modifier_id, ...]; su price_delta
+// se suma al precio del producto y sus ingredientes se descuentan del inventario junto con la venta
+
+const modifierSelect = {
+    id: true,
+    name: true,
+    price_delta: true,
+    is_active: true,
+    modifier_ingredient: {
+        select: {
+            amount: true,
+            ingredient_id: true,
+            ingredient: {
+                select: {
+                    name: true,
+                    unit_measurement: true,
+                }
+            }
+        }
+    }
+};
+
+const modifierGroupSelect = {
+    id: true,
+    created_at: true,
+    updated_at: true,
+    name: true,
+    is_required: true,
+    min_select: true,
+    max_select: true,
+    is_active: true,
+    branch_id: true,
+    modifier: {
+        orderBy: {
+            name: 'asc' as const
+        },
+        select: modifierSelect
+    }
+};
+
+const formatModifier = (modifier: any) => ({
+    ...modifier,
+    id: bufferToUuid(Buffer.from(modifier.id)),
+    modifier_ingredient: modifier.modifier_ingredient.map((modifierIngredient: any) => ({
+        ...modifierIngredient,
+        ingredient_id: bufferToUuid(Buffer.from(modifierIngredient.ingredient_id)),
+    })),
+});
+
+const formatModifierGroup = (group: any) => ({
+    ...group,
+    id: bufferToUuid(Buffer.from(group.id)),
+    branch_id: group.branch_id ? bufferToUuid(Buffer.from(group.branch_id)) : null,
+    modifier: group.modifier.map(formatModifier),
+});
+
+// Un grupo obligatorio pide al menos una selección; max_select vacío significa sin límite
+function validateSelectionLimits(isRequired: boolean, minSelect: number, maxSelect: number | null) {
+    if (!Number.isInteger(minSelect) || minSelect < 0) {
+        throw new SaleError("El mínimo de selecciones debe ser un entero mayor o igual a cero");
+    }
+    if (maxSelect !== null && (!Number.isInteger(maxSelect) || maxSelect < 1)) {
+        throw new SaleError("El máximo de selecciones debe ser un entero mayor a cero");
+    }
+    if (maxSelect !== null && maxSelect < Math.max(minSelect, isRequired ? 1 : 0)) {
+        throw new SaleError("El máximo de selecciones no puede ser menor al mínimo");
+    }
+}
+
+// Las cantidades negativas representan ingredientes que se retiran del producto (por ejemplo, "sin plátano")
+async function createModifierIngredients(tx: Prisma.TransactionClient, modifierId: any, ingredients: any[]) {
+    if (!Array.isArray(ingredients)) {
+        throw new SaleError("Los ingredientes del modificador deben ser una lista");
+    }
+
+    const ingredientIds = new Set<string>();
+    for (const ingredient of ingredients) {
+        if (!ingredient?.ingredient_id || typeof ingredient.amount !== "number" || !Number.isFinite(ingredient.amount) || ingredient.amount === 0) {
+            throw new SaleError("Cada ingrediente del modificador requiere ingredient_id y una cantidad distinta de cero");
+        }
+        if (ingredientIds.has(ingredient.ingredient_id)) {
+            throw new SaleError("El ingrediente está repetido en el modificador");
+        }
+        ingredientIds.add(ingredient.ingredient_id);
+    }
+
+    if (ingredients.length === 0) return;
+    await tx.modifier_ingredient.createMany({
+        data: ingredients.map((ingredient) => ({
+            id: uuidToBuffer(uuidv4()),
+            created_at: new Date(),
+            updated_at: new Date(),
+            amount: ingredient.amount,
+            modifier_id: modifierId,
+            ingredient_id: uuidToBuffer(ingredient.ingredient_id),
+        }))
+    });
+}
+
+async function createModifier(tx: Prisma.TransactionClient, groupId: any, data: any) {
+    const { name, price_delta, ingredients } = data;
+    if (!name) {
+        throw new SaleError("El nombre del modificador es requerido");
+    }
+    if (price_delta !== undefined && (typeof price_delta !== "number" || !Number.isFinite(price_delta))) {
+        throw new SaleError("La diferencia de precio del modificador no es válida");
+    }
+
+    const modifierId = uuidToBuffer(uuidv4());
+    await tx.modifier.create({
+        data: {
+            id: modifierId,
+            created_at: new Date(),
+            updated_at: new Date(),
+            name: name,
+            price_delta: price_delta ?? 0,
+            is_active: true,
+            modifier_group_id: groupId,
+        }
+    });
+
+    await createModifierIngredients(tx, modifierId, ingredients ?? []);
+    return modifierId;
+}
+
+export const ModifierController = {
+    async createModifierGroup(req: any, res: any) {
+        const { name, is_required, min_select, max_select, branch_id, modifiers } = req.body;
+        try {
+            if (!name) {
+                return res.status(400).json({ message: "El nombre del grupo es requerido" });
+            }
+
+            const isRequired = Boolean(is_required);
+            const minSelect = min_select ?? (isRequired ? 1 : 0);
+            const maxSelect = max_select ?? null;
+            validateSelectionLimits(isRequired, minSelect, maxSelect);
+
+            const group = await prisma.$transaction(async (tx) => {
+                const groupId = uuidToBuffer(uuidv4());
+                await tx.modifier_group.create({
+                    data: {
+                        id: groupId,
+                        created_at: new Date(),
+                        updated_at: new Date(),
+                        name: name,
+                        is_required: isRequired,
+                        min_select: minSelect,
+                        max_select: maxSelect,
+                        is_active: true,
+                        branch_id: branch_id ? uuidToBuffer(branch_id) : null,
+                    }
+                });
+
+                for (const modifier of modifiers ?? []) {
+                    await createModifier(tx, groupId, modifier);
+                }
+
+                return tx.modifier_group.findUnique({
+                    where: {
+                        id: groupId
+                    },
+                    select: modifierGroupSelect
+                });
+            });
+
+            res.status(200).json(formatModifierGroup(group));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Los grupos sin sucursal son compartidos por todas las sucursales
+    async getModifierGroups(req: any, res: any) {
+        const { branch_id, include_inactive } = req.query;
+        try {
+            const whereClause: any = {};
+            if (branch_id) {
+                whereClause.OR = [
+                    { branch_id: uuidToBuffer(branch_id) },
+                    { branch_id: null },
+                ];
+            }
+            if (include_inactive !== "true") whereClause.is_active = true;
+
+            const groups = await prisma.modifier_group.findMany({
+                where: whereClause,
+                orderBy: {
+                    name: 'asc'
+                },
+                select: modifierGroupSelect
+            });
+
+            res.status(200).json(groups.map(formatModifierGroup));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async updateModifierGroup(req: any, res: any) {
+        const { id, name, is_required, min_select, max_select, is_active } = req.body;
+        try {
+            const existingGroup = await prisma.modifier_group.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                }
+            });
+
+            if (!existingGroup) {
+                return res.status(404).json({ message: "Grupo de modificadores no encontrado" });
+            }
+
+            const isRequired = is_required !== undefined ? Boolean(is_required) : existingGroup.is_required;
+            const minSelect = min_select !== undefined ? min_select : existingGroup.min_select;
+            const maxSelect = max_select !== undefined ? max_select : existingGroup.max_select;
+            validateSelectionLimits(isRequired, minSelect, maxSelect);
+
+            const updateData: any = {
+                updated_at: new Date(),
+                is_required: isRequired,
+                min_select: minSelect,
+                max_select: maxSelect,
+            };
+            if (name !== undefined) updateData.name = name;
+            if (is_active !== undefined) updateData.is_active = is_active;
+
+            const updatedGroup = await prisma.modifier_group.update({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                data: updateData,
+                select: modifierGroupSelect
+            });
+
+            res.status(200).json(formatModifierGroup(updatedGroup));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async createModifier(req: any, res: any) {
+        const { modifier_group_id } = req.body;
+        try {
+            const group = await prisma.modifier_group.findUnique({
+                where: {
+                    id: uuidToBuffer(modifier_group_id)
+                },
+                select: {
+                    id: true
+                }
+            });
+
+            if (!group) {
+                return res.status(404).json({ message: "Grupo de modificadores no encontrado" });
+            }
+
+            const modifier = await prisma.$transaction(async (tx) => {
+                const modifierId = await createModifier(tx, group.id, req.body);
+                return tx.modifier.findUnique({
+                    where: {
+                        id: modifierId
+                    },
+                    select: modifierSelect
+                });
+            });
+
+            res.status(200).json(formatModifier(modifier));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Si se envían ingredientes, reemplazan por completo a los anteriores; las ventas ya hechas conservan su precio
+    async updateModifier(req: any, res: any) {
+        const { id, name, price_delta, is_active, ingredients } = req.body;
+        try {
+            const existingModifier = await prisma.modifier.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                select: {
+                    id: true
+                }
+            });
+
+            if (!existingModifier) {
+                return res.status(404).json({ message: "Modificador no encontrado" });
+            }
+            if (price_delta !== undefined && (typeof price_delta !== "number" || !Number.isFinite(price_delta))) {
+                return res.status(400).json({ message: "La diferencia de precio del modificador no es válida" });
+            }
+
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+            if (name !== undefined) updateData.name = name;
+            if (price_delta !== undefined) updateData.price_delta = price_delta;
+            if (is_active !== undefined) updateData.is_active = is_active;
+
+            const modifier = await prisma.$transaction(async (tx) => {
+                await tx.modifier.update({
+                    where: {
+                        id: existingModifier.id
+                    },
+                    data: updateData
+                });
+
+                if (ingredients !== undefined) {
+                    await tx.modifier_ingredient.deleteMany({
+                        where: {
+                            modifier_id: existingModifier.id
+                        }
+                    });
+                    await createModifierIngredients(tx, existingModifier.id, ingredients);
+                }
+
+                return tx.modifier.findUnique({
+                    where: {
+                        id: existingModifier.id
+                    },
+                    select: modifierSelect
+                });
+            });
+
+            res.status(200).json(formatModifier(modifier));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async attachModifierGroup(req: any, res: any) {
+        const { product_id, modifier_group_id, sort_order } = req.body;
+        try {
+            const [product, group] = await Promise.all([
+                prisma.product.findUnique({
+                    where: {
+                        id: uuidToBuffer(product_id)
+                    },
+                    select: {
+                        branch_id: true
+                    }
+                }),
+                prisma.modifier_group.findUnique({
+                    where: {
+                        id: uuidToBuffer(modifier_group_id)
+                    },
+                    select: {
+                        branch_id: true
+                    }
+                }),
+            ]);
+
+            if (!product) {
+                return res.status(404).json({ message: "Producto no encontrado" });
+            }
+            if (!group) {
+                return res.status(404).json({ message: "Grupo de modificadores no encontrado" });
+            }
+            if (group.branch_id && product.branch_id && !Buffer.from(group.branch_id).equals(Buffer.from(product.branch_id))) {
+                return res.status(400).json({ message: "El grupo de modificadores no pertenece a la sucursal del producto" });
+            }
+
+            const existingLink = await prisma.product_modifier_group.findUnique({
+                where: {
+                    product_id_modifier_group_id: {
+                        product_id: uuidToBuffer(product_id),
+                        modifier_group_id: uuidToBuffer(modifier_group_id),
+                    }
+                }
+            });
+
+            if (existingLink) {
+                return res.status(409).json({ message: "El grupo de modificadores ya está asignado al producto" });
+            }
+
+            await prisma.product_modifier_group.create({
+                data: {
+                    id: uuidToBuffer(uuidv4()),
+                    created_at: new Date(),
+                    sort_order: sort_order ?? 0,
+                    product_id: uuidToBuffer(product_id),
+                    modifier_group_id: uuidToBuffer(modifier_group_id),
+                }
+            });
+
+            res.status(200).json({ message: "Grupo de modificadores asignado correctamente" });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async detachModifierGroup(req: any, res: any) {
+        const { product_id, modifier_group_id } = req.body;
+        try {
+            const deleted = await prisma.product_modifier_group.deleteMany({
+                where: {
+                    product_id: uuidToBuffer(product_id),
+                    modifier_group_id: uuidToBuffer(modifier_group_id),
+                }
+            });
+
+            if (deleted.count === 0) {
+                return res.status(404).json({ message: "El grupo de modificadores no está asignado al producto" });
+            }
+
+            res.status(200).json({ message: "Grupo de modificadores retirado del producto" });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Grupos activos del producto con sus modificadores activos, en el orden en que se muestran en caja
+    async getProductModifiers(req: any, res: any) {
+        const { id } = req.params;
+        try {
+            const links = await prisma.product_modifier_group.findMany({
+                where: {
+                    product_id: uuidToBuffer(id),
+                    modifier_group: {
+                        is_active: true
+                    }
+                },
+                orderBy: {
+                    sort_order: 'asc'
+                },
+                select: {
+                    sort_order: true,
+                    modifier_group: {
+                        select: {
+                            ...modifierGroupSelect,
+                            modifier: {
+                                ...modifierGroupSelect.modifier,
+                                where: {
+                                    is_active: true
+                                }
+                            }
+                        }
+                    }
+                }
+            });
+
+            res.status(200).json(links.map((link) => ({
+                ...formatModifierGroup(link.modifier_group),
+                sort_order: link.sort_order,
+            })));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
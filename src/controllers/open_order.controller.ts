@@ -0,0 +1,553 @@
+import prisma from "../lib/prisma";
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { getBranchTaxConfig, getBranchTimeZone, getSaleBranchId, getUserBranchId } from "../utils/branch";
+import { getPaymentMethods, getSalePaymentMethod, resolveSalePayments } from "../utils/payment";
+import { resolveOrderInfo, resolveOrderSurcharges } from "../utils/order";
+import { resolveSaleCustomer, withCustomerContact } from "../utils/customer";
+import { applySaleLoyalty } from "../utils/loyalty";
+import { chargeGiftCardPayments } from "../utils/gift_card";
+import { createSaleLineModifiers, formatSaleDetailModifiers, saleDetailModifierSelect } from "../utils/modifier";
+import { createSaleLineComboItems, formatSaleDetailComboItems, saleDetailComboItemSelect } from "../utils/combo";
+import { assertBusinessDayOpen, getBusinessDate } from "../utils/report";
+import { getOpenShiftId } from "../utils/shift";
+import { assignTicketNumber } from "../utils/ticket";
+import {
+    allocateOrderDiscount,
+    applySaleTaxes,
+    computeLineTax,
+    resolveOrderDiscount,
+    resolveSaleLines,
+    roundMoney,
+    SaleError,
+    SaleLineInput,
+    summarizeSaleLines,
+} from "../utils/sale";
+
+const openOrderSelect = {
+    id: true,
+    created_at: true,
+    updated_at: true,
+    status: true,
+    ticket_number: true,
+    business_date: true,
+    order_type: true,
+    customer_name: true,
+    customer_phone: true,
+    delivery_address: true,
+    customer_id: true,
+    parked_at: true,
+    closed_at: true,
+    total: true,
+    discount_total: true,
+    surcharge_total: true,
+    tax_base: true,
+    tax_amount: true,
+    payment_method: true,
+    user_id: true,
+    sale_detail: {
+        select: {
+            id: true,
+            amount: true,
+            unit_price: true,
+            subtotal: true,
+            discount_amount: true,
+            tax_amount: true,
+            note: true,
+            kitchen_status: true,
+            product_id: true,
+            combo_id: true,
+            product: {
+                select: {
+                    name: true
+                }
+            },
+            combo: {
+                select: {
+                    name: true
+                }
+            },
+            sale_detail_modifier: saleDetailModifierSelect,
+            sale_detail_combo_item: saleDetailComboItemSelect,
+        },
+        orderBy: {
+            created_at: 'asc' as const
+        }
+    },
+    sale_payment: {
+        select: {
+            id: true,
+            method: true,
+            amount: true,
+            tendered: true,
+            change: true,
+        }
+    }
+};
+
+const formatOpenOrder = (order: any) => ({
+    ...order,
+    id: bufferToUuid(Buffer.from(order.id)),
+    business_date: order.business_date ? order.business_date.toISOString().slice(0, 10) : null,
+    customer_id: order.customer_id ? bufferToUuid(Buffer.from(order.customer_id)) : null,
+    user_id: bufferToUuid(Buffer.from(order.user_id)),
+    sale_detail: order.sale_detail.map(({ sale_detail_modifier, sale_detail_combo_item, ...detail }: any) => ({
+        ...detail,
+        id: bufferToUuid(Buffer.from(detail.id)),
+        product_id: detail.product_id ? bufferToUuid(Buffer.from(detail.product_id)) : null,
+        combo_id: detail.combo_id ? bufferToUuid(Buffer.from(detail.combo_id)) : null,
+        modifiers: formatSaleDetailModifiers(sale_detail_modifier),
+        combo_items: formatSaleDetailComboItems(sale_detail_combo_item),
+    })),
+    sale_payment: order.sale_payment.map((payment: any) => ({
+        ...payment,
+        id: bufferToUuid(Buffer.from(payment.id)),
+    })),
+});
+
+// Obtiene una orden y verifica que siga abierta
+async function getOpenOrder(tx: Prisma.TransactionClient, saleId: any) {
+    const sale = await tx.sale.findUnique({
+        where: {
+            id: saleId
+        },
+        select: {
+            id: true,
+            status: true,
+            order_type: true,
+            prices_include_tax: true,
+            branch_id: true,
+            user_id: true,
+            business_date: true,
+        }
+    });
+
+    if (!sale) {
+        throw new SaleError("Orden no encontrada", 404);
+    }
+    if (sale.status !== "open") {
+        throw new SaleError("La orden ya fue cerrada", 409);
+    }
+    return sale;
+}
+
+// Agrega líneas a una orden abierta con precio del catálogo e IVA de la sucursal, y acumula sus importes
+async function addOrderLines(tx: Prisma.TransactionClient, sale: { id: any; prices_include_tax: boolean; branch_id: any; user_id: any }, lines: SaleLineInput[]) {
+    const taxConfig = await getBranchTaxConfig(tx, await getSaleBranchId(tx, sale));
+    const resolvedLines = applySaleTaxes(
+        await resolveSaleLines(tx, lines),
+        { tax_rate: taxConfig.tax_rate, prices_include_tax: sale.prices_include_tax }
+    );
+    const summary = summarizeSaleLines(resolvedLines);
+
+    const saleDetailIds = resolvedLines.map(() => uuidToBuffer(uuidv4()));
+    await tx.sale_detail.createMany({
+        data: resolvedLines.map((line, index) => ({
+            id: saleDetailIds[index],
+            created_at: new Date(),
+            updated_at: new Date(),
+            amount: line.amount,
+            unit_price: line.unit_price,
+            subtotal: line.subtotal,
+            discount_type: line.discount_type,
+            discount_value: line.discount_value,
+            discount_amount: line.discount_amount,
+            discount_reason_id: line.discount_reason_id,
+            tax_rate: line.tax_rate,
+            tax_base: line.tax_base,
+            tax_amount: line.tax_amount,
+            kitchen_status: "pending",
+            sale_id: sale.id,
+            product_id: line.product_id,
+            combo_id: line.combo_id,
+            loyalty_reward_id: line.loyalty_reward_id,
+            note: line.note,
+        })),
+    });
+    await createSaleLineModifiers(tx, resolvedLines, saleDetailIds);
+    await createSaleLineComboItems(tx, resolvedLines, saleDetailIds);
+
+    await tx.sale.update({
+        where: {
+            id: sale.id
+        },
+        data: {
+            total: {
+                increment: summary.total
+            },
+            discount_total: {
+                increment: summary.discount_total
+            },
+            tax_base: {
+                increment: summary.tax_base
+            },
+            tax_amount: {
+                increment: summary.tax_amount
+            },
+            updated_at: new Date()
+        }
+    });
+}
+
+export const OpenOrderController = {
+    // Abre una cuenta sin cobrar; puede crearse vacía o con una primera ronda de líneas
+    async createOpenOrder(req: any, res: any) {
+        const { user_id, branch_id, lines } = req.body;
+        try {
+            const newOrder = await prisma.$transaction(async (tx) => {
+                const saleUserId = user_id || req.user.id;
+                const branchId = branch_id ? uuidToBuffer(branch_id) : await getUserBranchId(tx, saleUserId);
+                const customer = await resolveSaleCustomer(tx, req.body.customer_id, branchId);
+                const orderInfo = resolveOrderInfo(withCustomerContact(req.body, customer));
+                const taxConfig = await getBranchTaxConfig(tx, branchId);
+                const businessDate = getBusinessDate(await getBranchTimeZone(tx, branchId));
+                await assertBusinessDayOpen(tx, branchId, businessDate);
+
+                const saleBufferId = uuidToBuffer(uuidv4());
+                const sale = await tx.sale.create({
+                    data: {
+                        id: saleBufferId,
+                        created_at: new Date(),
+                        updated_at: new Date(),
+                        status: "open",
+                        total: 0,
+                        prices_include_tax: taxConfig.prices_include_tax,
+                        ticket_number: await assignTicketNumber(tx, branchId, businessDate),
+                        business_date: new Date(`${businessDate}T00:00:00Z`),
+                        ...orderInfo,
+                        branch_id: branchId,
+                        customer_id: customer ? customer.id : null,
+                        user_id: uuidToBuffer(saleUserId),
+                    },
+                    select: {
+                        id: true,
+                        prices_include_tax: true,
+                        branch_id: true,
+                        user_id: true,
+                    }
+                });
+
+                if (Array.isArray(lines) && lines.length > 0) {
+                    await addOrderLines(tx, sale, lines);
+                }
+
+                return tx.sale.findUnique({
+                    where: {
+                        id: saleBufferId
+                    },
+                    select: openOrderSelect,
+                });
+            });
+
+            res.status(200).json(formatOpenOrder(newOrder));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Órdenes abiertas de la sucursal, para retomarlas desde cualquier caja
+    async getOpenOrders(req: any, res: any) {
+        const { branch_id } = req.query;
+        try {
+            const branchId = branch_id ? uuidToBuffer(branch_id) : await getUserBranchId(prisma, req.user.id);
+            if (!branchId) {
+                return res.status(404).json({ message: "Usuario no está asociado a ninguna sucursal" });
+            }
+
+            const orders = await prisma.sale.findMany({
+                where: {
+                    status: "open",
+                    branch_id: branchId
+                },
+                orderBy: {
+                    created_at: 'asc'
+                },
+                select: openOrderSelect,
+            });
+
+            res.status(200).json(orders.map(formatOpenOrder));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async addLines(req: any, res: any) {
+        const { sale_id, lines } = req.body;
+        try {
+            const updatedOrder = await prisma.$transaction(async (tx) => {
+                const sale = await getOpenOrder(tx, uuidToBuffer(sale_id));
+                await addOrderLines(tx, sale, lines);
+
+                return tx.sale.findUnique({
+                    where: {
+                        id: sale.id
+                    },
+                    select: openOrderSelect,
+                });
+            });
+
+            res.status(200).json(formatOpenOrder(updatedOrder));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async removeLine(req: any, res: any) {
+        const { sale_detail_id } = req.body;
+        try {
+            const updatedOrder = await prisma.$transaction(async (tx) => {
+                const saleDetail = await tx.sale_detail.findUnique({
+                    where: {
+                        id: uuidToBuffer(sale_detail_id)
+                    },
+                    select: {
+                        id: true,
+                        subtotal: true,
+                        discount_amount: true,
+                        tax_base: true,
+                        tax_amount: true,
+                        sale_id: true,
+                    }
+                });
+
+                if (!saleDetail) {
+                    throw new SaleError("Detalle de venta no encontrado", 404);
+                }
+
+                const sale = await getOpenOrder(tx, saleDetail.sale_id);
+
+                await tx.sale_detail.delete({
+                    where: {
+                        id: saleDetail.id
+                    }
+                });
+
+                await tx.sale.update({
+                    where: {
+                        id: sale.id
+                    },
+                    data: {
+                        total: {
+                            decrement: roundMoney(saleDetail.subtotal - saleDetail.discount_amount + (sale.prices_include_tax ? 0 : saleDetail.tax_amount))
+                        },
+                        discount_total: {
+                            decrement: saleDetail.discount_amount
+                        },
+                        tax_base: {
+                            decrement: saleDetail.tax_base
+                        },
+                        tax_amount: {
+                            decrement: saleDetail.tax_amount
+                        },
+                        updated_at: new Date()
+                    }
+                });
+
+                return tx.sale.findUnique({
+                    where: {
+                        id: sale.id
+                    },
+                    select: openOrderSelect,
+                });
+            });
+
+            res.status(200).json(formatOpenOrder(updatedOrder));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Estaciona la orden para liberar la caja; queda visible para las demás cajas de la sucursal
+    async parkOrder(req: any, res: any) {
+        const { sale_id } = req.body;
+        try {
+            const parkedOrder = await prisma.$transaction(async (tx) => {
+                const sale = await getOpenOrder(tx, uuidToBuffer(sale_id));
+
+                return tx.sale.update({
+                    where: {
+                        id: sale.id
+                    },
+                    data: {
+                        parked_at: new Date(),
+                        updated_at: new Date()
+                    },
+                    select: openOrderSelect,
+                });
+            });
+
+            res.status(200).json(formatOpenOrder(parkedOrder));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async resumeOrder(req: any, res: any) {
+        const { sale_id } = req.body;
+        try {
+            const resumedOrder = await prisma.$transaction(async (tx) => {
+                const sale = await getOpenOrder(tx, uuidToBuffer(sale_id));
+
+                return tx.sale.update({
+                    where: {
+                        id: sale.id
+                    },
+                    data: {
+                        parked_at: null,
+                        updated_at: new Date()
+                    },
+                    select: openOrderSelect,
+                });
+            });
+
+            res.status(200).json(formatOpenOrder(resumedOrder));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Cobra y cierra la orden: aplica el descuento general, los cargos por tipo de orden y registra los pagos.
+    // A partir de aquí la venta cuenta para reportes, turno de caja e inventario.
+    async closeOrder(req: any, res: any) {
+        const { sale_id, payment_method, payments, discount, promo_code } = req.body;
+        try {
+            const closedOrder = await prisma.$transaction(async (tx) => {
+                // Bloquea la orden antes de leerla; un segundo cobro simultáneo espera y ya no la encuentra abierta
+                const claimed = await tx.sale.updateMany({
+                    where: {
+                        id: uuidToBuffer(sale_id),
+                        status: "open"
+                    },
+                    data: {
+                        updated_at: new Date()
+                    }
+                });
+                const sale = await getOpenOrder(tx, uuidToBuffer(sale_id));
+                if (claimed.count === 0) {
+                    throw new SaleError("La orden ya fue cerrada", 409);
+                }
+                const branchId = await getSaleBranchId(tx, sale);
+                // La venta se reporta en el día en que se abrió la orden
+                if (sale.business_date) {
+                    await assertBusinessDayOpen(tx, branchId, sale.business_date.toISOString().slice(0, 10));
+                }
+
+                const details = await tx.sale_detail.findMany({
+                    where: {
+                        sale_id: sale.id
+                    },
+                    select: {
+                        id: true,
+                        subtotal: true,
+                        discount_amount: true,
+                        tax_rate: true,
+                    }
+                });
+
+                if (details.length === 0) {
+                    throw new SaleError("La orden no tiene líneas");
+                }
+
+                // El descuento general se reparte entre las líneas y el IVA se recalcula sobre el neto resultante
+                const lines = details.map((detail) => ({ ...detail, total: roundMoney(detail.subtotal - detail.discount_amount) }));
+                const base = roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+                const orderDiscount = await resolveOrderDiscount(tx, branchId, base, discount, promo_code);
+                const taxedLines = allocateOrderDiscount(lines, orderDiscount.discount_amount).map((line) => ({
+                    ...line,
+                    ...computeLineTax(line.subtotal - line.discount_amount, line.tax_rate, sale.prices_include_tax),
+                }));
+
+                for (const line of taxedLines) {
+                    await tx.sale_detail.update({
+                        where: {
+                            id: line.id
+                        },
+                        data: {
+                            discount_amount: line.discount_amount,
+                            tax_base: line.tax_base,
+                            tax_amount: line.tax_amount,
+                            updated_at: new Date()
+                        }
+                    });
+                }
+
+                const taxConfig = await getBranchTaxConfig(tx, branchId);
+                const discountTotal = roundMoney(taxedLines.reduce((sum, line) => sum + line.discount_amount, 0));
+                const linesTotal = roundMoney(taxedLines.reduce((sum, line) => sum + line.total, 0));
+                const surcharge = await resolveOrderSurcharges(
+                    tx,
+                    branchId,
+                    sale.order_type,
+                    roundMoney(base - orderDiscount.discount_amount),
+                    { tax_rate: taxConfig.tax_rate, prices_include_tax: sale.prices_include_tax }
+                );
+                const total = roundMoney(linesTotal + surcharge.total);
+
+                const paymentMethods = await getPaymentMethods(tx, branchId);
+                const resolvedPayments = resolveSalePayments(payments, total, paymentMethods, payment_method);
+
+                const chargedPayments = await chargeGiftCardPayments(tx, resolvedPayments, { id: sale.id, branch_id: branchId });
+                await tx.sale_payment.createMany({
+                    data: chargedPayments.map((payment) => ({
+                        id: uuidToBuffer(uuidv4()),
+                        created_at: new Date(),
+                        updated_at: new Date(),
+                        method: payment.method,
+                        amount: payment.amount,
+                        tendered: payment.tendered,
+                        change: payment.change,
+                        sale_id: sale.id,
+                        payment_method_id: payment.payment_method_id,
+                        gift_card_id: payment.gift_card_id,
+                    })),
+                });
+
+                // Los puntos de la orden se canjean y acumulan hasta que se cobra
+                await applySaleLoyalty(tx, sale.id);
+
+                return tx.sale.update({
+                    where: {
+                        id: sale.id
+                    },
+                    data: {
+                        status: "completed",
+                        total: total,
+                        discount_type: orderDiscount.discount_type,
+                        discount_value: orderDiscount.discount_value,
+                        discount_amount: orderDiscount.discount_amount,
+                        discount_total: discountTotal,
+                        discount_reason_id: orderDiscount.discount_reason_id,
+                        promo_code_id: orderDiscount.promo_code_id,
+                        surcharge_total: surcharge.surcharge_total,
+                        tax_base: roundMoney(taxedLines.reduce((sum, line) => sum + line.tax_base, 0) + surcharge.tax_base),
+                        tax_amount: roundMoney(taxedLines.reduce((sum, line) => sum + line.tax_amount, 0) + surcharge.tax_amount),
+                        payment_method: getSalePaymentMethod(resolvedPayments, payment_method),
+                        // El cobro entra al turno de caja abierto al momento de cerrar la orden
+                        shift_id: await getOpenShiftId(tx, branchId),
+                        parked_at: null,
+                        closed_at: new Date(),
+                        updated_at: new Date()
+                    },
+                    select: openOrderSelect,
+                });
+            });
+
+            res.status(200).json(formatOpenOrder(closedOrder));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
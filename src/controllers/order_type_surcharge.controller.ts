@@ -0,0 +1,134 @@
+import prisma from "../lib/prisma";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { ORDER_TYPES } from "../utils/order";
+
+const surchargeSelect = {
+    id: true,
+    order_type: true,
+    name: true,
+    surcharge_type: true,
+    value: true,
+    is_active: true,
+    branch_id: true,
+};
+
+const formatSurcharge = (surcharge: any) => ({
+    ...surcharge,
+    id: bufferToUuid(Buffer.from(surcharge.id)),
+    branch_id: bufferToUuid(Buffer.from(surcharge.branch_id)),
+});
+
+export const OrderTypeSurchargeController = {
+    async createSurcharge(req: any, res: any) {
+        const { order_type, name, surcharge_type, value, branch_id } = req.body;
+        try {
+            if (!ORDER_TYPES.includes(order_type)) {
+                return res.status(400).json({ message: "Tipo de orden inválido. Use dine_in, takeout o delivery" });
+            }
+            if (!name) {
+                return res.status(400).json({ message: "El nombre es obligatorio" });
+            }
+            if (surcharge_type !== "percent" && surcharge_type !== "fixed") {
+                return res.status(400).json({ message: "Tipo de cargo inválido. Use percent o fixed" });
+            }
+            if (!(Number(value) > 0)) {
+                return res.status(400).json({ message: "El valor del cargo es inválido" });
+            }
+
+            const existingSurcharge = await prisma.order_type_surcharge.findFirst({
+                where: {
+                    order_type: order_type,
+                    name: name,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+            });
+
+            if (existingSurcharge) {
+                return res
+                    .status(409)
+                    .json({ message: "El cargo ya se encuentra registrado para ese tipo de orden" });
+            }
+
+            const newSurcharge = await prisma.order_type_surcharge.create({
+                data: {
+                    id: uuidToBuffer(uuidv4()),
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                    order_type: order_type,
+                    name: name,
+                    surcharge_type: surcharge_type,
+                    value: Number(value),
+                    is_active: true,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+                select: surchargeSelect,
+            });
+
+            res.status(200).json(formatSurcharge(newSurcharge));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getSurcharges(req: any, res: any) {
+        const { branch_id, order_type } = req.query;
+        try {
+            const whereClause: any = {};
+            if (branch_id) whereClause.branch_id = uuidToBuffer(branch_id);
+            if (order_type) whereClause.order_type = order_type;
+
+            const surcharges = await prisma.order_type_surcharge.findMany({
+                where: whereClause,
+                orderBy: {
+                    created_at: 'asc'
+                },
+                select: surchargeSelect,
+            });
+
+            res.status(200).json(surcharges.map(formatSurcharge));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async updateSurcharge(req: any, res: any) {
+        const { id, name, surcharge_type, value, is_active } = req.body;
+        try {
+            const existingSurcharge = await prisma.order_type_surcharge.findUnique({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+            });
+
+            if (!existingSurcharge) {
+                return res.status(404).json({ message: "Cargo no encontrado" });
+            }
+            if (surcharge_type !== undefined && surcharge_type !== "percent" && surcharge_type !== "fixed") {
+                return res.status(400).json({ message: "Tipo de cargo inválido. Use percent o fixed" });
+            }
+            if (value !== undefined && !(Number(value) > 0)) {
+                return res.status(400).json({ message: "El valor del cargo es inválido" });
+            }
+
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+
+            if (name !== undefined) updateData.name = name;
+            if (surcharge_type !== undefined) updateData.surcharge_type = surcharge_type;
+            if (value !== undefined) updateData.value = Number(value);
+            if (is_active !== undefined) updateData.is_active = is_active;
+
+            const updatedSurcharge = await prisma.order_type_surcharge.update({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+                data: updateData,
+                select: surchargeSelect,
+            });
+
+            res.status(200).json(formatSurcharge(updatedSurcharge));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
@@ -0,0 +1,135 @@
+import prisma from "../lib/prisma";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { getPaymentMethods, GIFT_CARD_PAYMENT_METHOD, MIXED_PAYMENT_METHOD } from "../utils/payment";
+
+export const PaymentMethodController = {
+    async createPaymentMethod(req: any, res: any) {
+        const { code, name, counts_in_drawer, branch_id } = req.body;
+        try {
+            if (!code || !name) {
+                return res.status(400).json({ message: "El código y el nombre son obligatorios" });
+            }
+
+            const normalizedCode = String(code).trim().toLowerCase();
+            if (normalizedCode === MIXED_PAYMENT_METHOD || normalizedCode === GIFT_CARD_PAYMENT_METHOD.code) {
+                return res.status(400).json({ message: `El código "${normalizedCode}" está reservado` });
+            }
+
+            const existingPaymentMethod = await prisma.payment_method.findFirst({
+                where: {
+                    code: normalizedCode,
+                    branch_id: uuidToBuffer(branch_id),
+                },
+            });
+
+            if (existingPaymentMethod) {
+                return res
+                    .status(409)
+                    .json({ message: "El método de pago ya se encuentra registrado" });
+            }
+
+            const uuid = uuidv4();
+            const uuidBuffer = uuidToBuffer(uuid);
+            const newPaymentMethod = await prisma.payment_method.create({
+                data: {
+                    id: uuidBuffer,
+                    created_at: new Date(),
+                    updated_at: new Date(),
+                    code: normalizedCode,
+                    name: name,
+                    is_active: true,
+                    counts_in_drawer: Boolean(counts_in_drawer),
+                    branch_id: uuidToBuffer(branch_id),
+                },
+                select: {
+                    id: true,
+                    code: true,
+                    name: true,
+                    is_active: true,
+                    counts_in_drawer: true,
+                    branch_id: true,
+                },
+            });
+
+            if (!newPaymentMethod) {
+                return res.status(400).json({ message: "Error al insertar método de pago" });
+            }
+
+            const formattedPaymentMethod = {
+                ...newPaymentMethod,
+                id: bufferToUuid(Buffer.from(newPaymentMethod.id)),
+                branch_id: bufferToUuid(Buffer.from(newPaymentMethod.branch_id)),
+            };
+
+            res.status(200).json(formattedPaymentMethod);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor" + error });
+        }
+    },
+    async getPaymentMethods(req: any, res: any) {
+        const { branch_id } = req.query;
+        try {
+            // Si la sucursal no tiene métodos configurados se devuelven los predeterminados
+            const paymentMethods = await getPaymentMethods(prisma, branch_id ? uuidToBuffer(branch_id) : null);
+
+            const formattedPaymentMethods = paymentMethods.map((paymentMethod) => ({
+                ...paymentMethod,
+                id: paymentMethod.id ? bufferToUuid(Buffer.from(paymentMethod.id)) : null,
+            }));
+
+            res.status(200).json(formattedPaymentMethods);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor" + error });
+        }
+    },
+    async updatePaymentMethod(req: any, res: any) {
+        const { id, name, is_active, counts_in_drawer } = req.body;
+
+        try {
+            const existingPaymentMethod = await prisma.payment_method.findUnique({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+            });
+
+            if (!existingPaymentMethod) {
+                return res.status(404).json({ message: "Método de pago no encontrado" });
+            }
+
+            // Preparar los datos para actualizar
+            const updateData: any = {
+                updated_at: new Date(),
+            };
+
+            if (name !== undefined) updateData.name = name;
+            if (is_active !== undefined) updateData.is_active = is_active;
+            if (counts_in_drawer !== undefined) updateData.counts_in_drawer = counts_in_drawer;
+
+            const updatedPaymentMethod = await prisma.payment_method.update({
+                where: {
+                    id: uuidToBuffer(id),
+                },
+                data: updateData,
+                select: {
+                    id: true,
+                    code: true,
+                    name: true,
+                    is_active: true,
+                    counts_in_drawer: true,
+                    branch_id: true,
+                },
+            });
+
+            const formattedPaymentMethod = {
+                ...updatedPaymentMethod,
+                id: bufferToUuid(Buffer.from(updatedPaymentMethod.id)),
+                branch_id: bufferToUuid(Buffer.from(updatedPaymentMethod.branch_id)),
+            };
+
+            res.status(200).json(formattedPaymentMethod);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
@@ -5,7 +5,7 @@ import { BranchController } from './branch.controller';
 
 export const ProductController = {
     async createProduct(req: any, res: any) {
-        const { name, price, image, type_id, branch_id } = req.body;
+        const { name, price, image, type_id, branch_id, is_tax_exempt } = req.body;
         try {
             const product = await prisma.product.findFirst({
                 where: {
@@ -43,6 +43,7 @@ export const ProductController = {
                     price: price,
                     image: image,
                     is_active: true,
+                    is_tax_exempt: Boolean(is_tax_exempt),
                     type_id: uuidToBuffer(type_id),
                     branch_id: uuidToBuffer(branch_id),
                 },
@@ -50,6 +51,7 @@ export const ProductController = {
                     id: true,
                     name: true,
                     price: true,
+                    is_tax_exempt: true,
                     type_id: true,
                     branch_id: true,
                 },
@@ -109,6 +111,7 @@ export const ProductController = {
                     type_id: true,
                     branch_id: true,
                     is_active: true,
+                    is_tax_exempt: true,
                     created_at: true,
                     updated_at: true,
                     type_product: {
@@ -132,7 +135,7 @@ export const ProductController = {
         }
     },
     async updateProduct(req: any, res: any) {
-        const { id, name, price, image, type_id, is_active } = req.body;
+        const { id, name, price, image, type_id, is_active, is_tax_exempt } = req.body;
         
         try {
             // Verificar si el producto existe
@@ -170,6 +173,7 @@ export const ProductController = {
                     image: image,
                     type_id: type_id ? uuidToBuffer(type_id) : undefined,
                     is_active: is_active,
+                    is_tax_exempt: is_tax_exempt,
                     updated_at: new Date()
                 },
                 select: {
@@ -179,6 +183,7 @@ export const ProductController = {
                     image: true,
                     type_id: true,
                     is_active: true,
+                    is_tax_exempt: true,
                     updated_at: true
                 }
             });
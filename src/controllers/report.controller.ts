@@ -0,0 +1,214 @@
+import prisma from "../lib/prisma";
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { getBranchTimeZone, getUserBranchId } from "../utils/branch";
+import { buildDailyReport, getBusinessDate, renderReportText } from "../utils/report";
+import { SaleError } from "../utils/sale";
+
+const DATE_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatZReport = (zReport: any) => ({
+    ...zReport,
+    id: bufferToUuid(Buffer.from(zReport.id)),
+    branch_id: bufferToUuid(Buffer.from(zReport.branch_id)),
+    generated_by: bufferToUuid(Buffer.from(zReport.generated_by)),
+    business_date: zReport.business_date.toISOString().slice(0, 10),
+});
+
+export const ReportController = {
+    // Reporte X: corte parcial del día, no modifica nada
+    async getXReport(req: any, res: any) {
+        const { branch_id, date, format } = req.query;
+        try {
+            if (date !== undefined && !DATE_FORMAT.test(date)) {
+                return res.status(400).json({ message: "Formato de fecha inválido. Use YYYY-MM-DD (ejemplo: 2023-10-18)" });
+            }
+
+            const branchId = branch_id ? uuidToBuffer(branch_id) : await getUserBranchId(prisma, req.user.id);
+            if (!branchId) {
+                return res.status(404).json({ message: "Usuario no está asociado a ninguna sucursal" });
+            }
+            const businessDate = date || getBusinessDate(await getBranchTimeZone(prisma, branchId));
+
+            const report = await buildDailyReport(prisma, branchId, businessDate);
+
+            if (format === 'text') {
+                return res.status(200).type('text/plain').send(renderReportText(report, 'X'));
+            }
+            res.status(200).json(report);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Reporte Z: cierre definitivo del día; se numera por sucursal y no puede regenerarse
+    async createZReport(req: any, res: any) {
+        const { branch_id, date } = req.body;
+        try {
+            if (date !== undefined && !DATE_FORMAT.test(date)) {
+                return res.status(400).json({ message: "Formato de fecha inválido. Use YYYY-MM-DD (ejemplo: 2023-10-18)" });
+            }
+
+            const newZReport = await prisma.$transaction(async (tx) => {
+                const branchId = branch_id ? uuidToBuffer(branch_id) : await getUserBranchId(tx, req.user.id);
+                if (!branchId) {
+                    throw new SaleError("Usuario no está asociado a ninguna sucursal", 404);
+                }
+                // Solo se cierran días que ya empezaron en la zona horaria de la sucursal
+                const today = getBusinessDate(await getBranchTimeZone(tx, branchId));
+                const businessDate = date || today;
+                if (businessDate > today) {
+                    throw new SaleError("No se puede generar el reporte Z de un día futuro");
+                }
+
+                const existingZReport = await tx.z_report.findFirst({
+                    where: {
+                        branch_id: branchId,
+                        business_date: new Date(`${businessDate}T00:00:00Z`)
+                    },
+                    select: {
+                        number: true
+                    }
+                });
+
+                if (existingZReport) {
+                    throw new SaleError(`El reporte Z del ${businessDate} ya fue generado con el número ${existingZReport.number}`, 409);
+                }
+
+                // Una orden abierta se reporta en el día en que se abrió; si el día se cerrara antes de cobrarla
+                // ya no podría cerrarse, así que el reporte Z espera a que se cobren las órdenes del día
+                const openOrders = await tx.sale.count({
+                    where: {
+                        branch_id: branchId,
+                        status: "open",
+                        business_date: new Date(`${businessDate}T00:00:00Z`)
+                    }
+                });
+
+                if (openOrders > 0) {
+                    throw new SaleError(`Hay ${openOrders} órdenes abiertas del ${businessDate}; ciérrelas antes de generar el reporte Z`, 409);
+                }
+
+                const lastZReport = await tx.z_report.findFirst({
+                    where: {
+                        branch_id: branchId
+                    },
+                    orderBy: {
+                        number: 'desc'
+                    },
+                    select: {
+                        number: true
+                    }
+                });
+
+                const report = await buildDailyReport(tx, branchId, businessDate);
+
+                // Los índices únicos por sucursal evitan números o días duplicados en generaciones simultáneas
+                return tx.z_report.create({
+                    data: {
+                        id: uuidToBuffer(uuidv4()),
+                        created_at: new Date(),
+                        updated_at: new Date(),
+                        number: lastZReport ? lastZReport.number + 1 : 1,
+                        business_date: new Date(`${businessDate}T00:00:00Z`),
+                        data: JSON.parse(JSON.stringify(report)),
+                        branch_id: branchId,
+                        generated_by: uuidToBuffer(req.user.id),
+                    },
+                    select: {
+                        id: true,
+                        created_at: true,
+                        number: true,
+                        business_date: true,
+                        data: true,
+                        branch_id: true,
+                        generated_by: true,
+                    }
+                });
+            });
+
+            res.status(200).json(formatZReport(newZReport));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            // Los índices únicos rechazaron una generación simultánea del mismo día o número
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+                return res.status(409).json({ message: "Otra solicitud generó un reporte Z al mismo tiempo; intente de nuevo" });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getZReports(req: any, res: any) {
+        const { branch_id } = req.query;
+        try {
+            const zReports = await prisma.z_report.findMany({
+                where: branch_id ? { branch_id: uuidToBuffer(branch_id) } : {},
+                orderBy: {
+                    number: 'desc'
+                },
+                select: {
+                    id: true,
+                    created_at: true,
+                    number: true,
+                    business_date: true,
+                    branch_id: true,
+                    generated_by: true,
+                }
+            });
+
+            res.status(200).json(zReports.map(formatZReport));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getZReport(req: any, res: any) {
+        const { id } = req.params;
+        try {
+            const zReport = await prisma.z_report.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                select: {
+                    id: true,
+                    created_at: true,
+                    number: true,
+                    business_date: true,
+                    data: true,
+                    branch_id: true,
+                    generated_by: true,
+                }
+            });
+
+            if (!zReport) {
+                return res.status(404).json({ message: "Reporte Z no encontrado" });
+            }
+
+            res.status(200).json(formatZReport(zReport));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getZReportText(req: any, res: any) {
+        const { id } = req.params;
+        try {
+            const zReport = await prisma.z_report.findUnique({
+                where: {
+                    id: uuidToBuffer(id)
+                },
+                select: {
+                    number: true,
+                    data: true,
+                }
+            });
+
+            if (!zReport) {
+                return res.status(404).json({ message: "Reporte Z no encontrado" });
+            }
+
+            res.status(200).type('text/plain').send(renderReportText(zReport.data, 'Z', zReport.number));
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
@@ -1,20 +1,262 @@
 import prisma from "../lib/prisma";
+import { Prisma } from "@prisma/client";
 import { v4 as uuidv4 } from "uuid";
-import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { bufferToUuid, UUID_PATTERN, uuidToBuffer } from "../utils/common";
+import { allocateOrderDiscount, applySaleTaxes, DiscountInput, resolveOrderDiscount, resolveAuthorizer, resolveSaleLines, roundMoney, SaleError, SaleLineInput, summarizeSaleLines } from "../utils/sale";
+import { describePaymentTotals, getPaymentMethods, getSalePaymentMethod, resolveSalePayments, SalePaymentInput, sumPaymentsByMethod } from "../utils/payment";
+import { getBranchTaxConfig, getBranchTimeZone, getSaleBranchId, getUserBranchId } from "../utils/branch";
+import { getOpenShiftId } from "../utils/shift";
+import { assignTicketNumber } from "../utils/ticket";
+import { assertBusinessDayOpen, getBusinessDate, getRefundAmount, refundAmountSelect } from "../utils/report";
+import { resolveSaleCustomer, withCustomerContact } from "../utils/customer";
+import { applySaleLoyalty, reverseSaleLoyalty } from "../utils/loyalty";
+import { chargeGiftCardPayments, issueSaleGiftCards, reverseSaleGiftCards } from "../utils/gift_card";
+import { createSaleLineModifiers, formatSaleDetailModifiers, saleDetailModifierSelect } from "../utils/modifier";
+import { createSaleLineComboItems, formatSaleDetailComboItems, saleDetailComboItemSelect } from "../utils/combo";
+import { buildSaleFilter, buildSaleOrder, parsePageSize, parseSaleCursor } from "../utils/sale_filter";
+import { OrderInfoInput, resolveOrderInfo, resolveOrderSurcharges } from "../utils/order";
+import { buildReceipt, RECEIPT_WIDTHS, ReceiptFormat, renderReceiptEscPos, renderReceiptPdf, renderReceiptText } from "../utils/receipt";
+
+interface SaleRecordInput extends OrderInfoInput {
+    id?: string;
+    created_at?: Date;
+    synced_at?: Date;
+    user_id: string;
+    branch_id?: string;
+    lines: SaleLineInput[];
+    payments?: SalePaymentInput[];
+    payment_method?: string;
+    discount?: DiscountInput;
+    promo_code?: string;
+    customer_id?: string;
+}
+
+const saleRecordSelect = {
+    id: true,
+    created_at: true,
+    updated_at: true,
+    total: true,
+    discount_type: true,
+    discount_value: true,
+    discount_amount: true,
+    discount_total: true,
+    tax_base: true,
+    tax_amount: true,
+    prices_include_tax: true,
+    ticket_number: true,
+    business_date: true,
+    order_type: true,
+    customer_name: true,
+    customer_phone: true,
+    delivery_address: true,
+    customer_id: true,
+    surcharge_total: true,
+    gift_card_total: true,
+    promo_code_id: true,
+    payment_method: true,
+    shift_id: true,
+    user_id: true,
+    sale_detail: {
+        select: {
+            id: true,
+            amount: true,
+            unit_price: true,
+            subtotal: true,
+            discount_type: true,
+            discount_value: true,
+            discount_amount: true,
+            tax_rate: true,
+            tax_base: true,
+            tax_amount: true,
+            product_id: true,
+            combo_id: true,
+            note: true,
+            sale_detail_modifier: saleDetailModifierSelect,
+            sale_detail_combo_item: saleDetailComboItemSelect,
+            // El código de la tarjeta vendida se entrega al cliente con el ticket
+            gift_card: {
+                select: {
+                    code: true,
+                    balance: true,
+                }
+            },
+        }
+    },
+    sale_payment: {
+        select: {
+            id: true,
+            method: true,
+            amount: true,
+            tendered: true,
+            change: true,
+        }
+    }
+};
+
+const formatSaleRecord = (newSale: any) => ({
+    ...newSale,
+    id: bufferToUuid(Buffer.from(newSale.id)),
+    business_date: newSale.business_date.toISOString().slice(0, 10),
+    promo_code_id: newSale.promo_code_id ? bufferToUuid(Buffer.from(newSale.promo_code_id)) : null,
+    shift_id: newSale.shift_id ? bufferToUuid(Buffer.from(newSale.shift_id)) : null,
+    customer_id: newSale.customer_id ? bufferToUuid(Buffer.from(newSale.customer_id)) : null,
+    user_id: bufferToUuid(Buffer.from(newSale.user_id)),
+    subtotal: roundMoney(newSale.sale_detail.reduce((sum, detail) => sum + detail.subtotal, 0)),
+    sale_detail: newSale.sale_detail.map(({ sale_detail_modifier, sale_detail_combo_item, ...detail }) => ({
+        ...detail,
+        id: bufferToUuid(Buffer.from(detail.id)),
+        product_id: detail.product_id ? bufferToUuid(Buffer.from(detail.product_id)) : null,
+        combo_id: detail.combo_id ? bufferToUuid(Buffer.from(detail.combo_id)) : null,
+        modifiers: formatSaleDetailModifiers(sale_detail_modifier),
+        combo_items: formatSaleDetailComboItems(sale_detail_combo_item),
+    })),
+    sale_payment: newSale.sale_payment.map((payment) => ({
+        ...payment,
+        id: bufferToUuid(Buffer.from(payment.id)),
+    })),
+});
+
+// Registra una venta completa (líneas, descuentos, IVA, cargos y pagos) y devuelve su id.
+// Las ventas capturadas sin conexión conservan su id y su fecha original, de la que salen
+// el día de negocio, el número de ticket y el consumo de ingredientes.
+async function createSaleRecord(tx: Prisma.TransactionClient, input: SaleRecordInput) {
+    const createdAt = input.created_at || new Date();
+    const branchId = input.branch_id ? uuidToBuffer(input.branch_id) : await getUserBranchId(tx, input.user_id);
+    const customer = await resolveSaleCustomer(tx, input.customer_id, branchId);
+    const orderInfo = resolveOrderInfo(withCustomerContact(input, customer));
+
+    const pricedLines = await resolveSaleLines(tx, input.lines, { allow_gift_cards: true });
+    // Las tarjetas de regalo son saldo prepagado: no reciben descuento general ni generan cargos por tipo de orden
+    const giftCardTotal = roundMoney(pricedLines.filter((line) => line.is_gift_card).reduce((sum, line) => sum + line.total, 0));
+    if (giftCardTotal > 0 && (input.discount || input.promo_code)) {
+        throw new SaleError("Las ventas con tarjetas de regalo no admiten descuento general");
+    }
+    const orderDiscount = await resolveOrderDiscount(tx, branchId, summarizeSaleLines(pricedLines).total, input.discount, input.promo_code);
+    const taxConfig = await getBranchTaxConfig(tx, branchId);
+    const resolvedLines = applySaleTaxes(allocateOrderDiscount(pricedLines, orderDiscount.discount_amount), taxConfig);
+    const summary = summarizeSaleLines(resolvedLines);
+    const surcharge = await resolveOrderSurcharges(tx, branchId, orderInfo.order_type, summary.subtotal - summary.discount_total - giftCardTotal, taxConfig);
+    const total = roundMoney(summary.total + surcharge.total);
+
+    const paymentMethods = await getPaymentMethods(tx, branchId);
+    const resolvedPayments = resolveSalePayments(input.payments, total, paymentMethods, input.payment_method);
+
+    const saleBufferId = uuidToBuffer(input.id || uuidv4());
+    const businessDate = getBusinessDate(await getBranchTimeZone(tx, branchId), createdAt);
+    await assertBusinessDayOpen(tx, branchId, businessDate);
+    await tx.sale.create({
+        data: {
+            id: saleBufferId,
+            created_at: createdAt,
+            updated_at: new Date(),
+            total: total,
+            discount_type: orderDiscount.discount_type,
+            discount_value: orderDiscount.discount_value,
+            discount_amount: orderDiscount.discount_amount,
+            discount_total: summary.discount_total,
+            surcharge_total: surcharge.surcharge_total,
+            gift_card_total: giftCardTotal,
+            tax_base: roundMoney(summary.tax_base + surcharge.tax_base),
+            tax_amount: roundMoney(summary.tax_amount + surcharge.tax_amount),
+            prices_include_tax: taxConfig.prices_include_tax,
+            ticket_number: await assignTicketNumber(tx, branchId, businessDate),
+            business_date: new Date(`${businessDate}T00:00:00Z`),
+            ...orderInfo,
+            discount_reason_id: orderDiscount.discount_reason_id,
+            promo_code_id: orderDiscount.promo_code_id,
+            payment_method: getSalePaymentMethod(resolvedPayments, input.payment_method),
+            shift_id: await getOpenShiftId(tx, branchId, createdAt),
+            synced_at: input.synced_at,
+            branch_id: branchId,
+            customer_id: customer ? customer.id : null,
+            user_id: uuidToBuffer(input.user_id),
+        },
+    });
+
+    const issuedLines = await issueSaleGiftCards(tx, resolvedLines, { id: saleBufferId, branch_id: branchId, customer_id: customer ? customer.id : null });
+    const saleDetailIds = issuedLines.map(() => uuidToBuffer(uuidv4()));
+    await tx.sale_detail.createMany({
+        data: issuedLines.map((line, index) => ({
+            id: saleDetailIds[index],
+            created_at: createdAt,
+            updated_at: new Date(),
+            amount: line.amount,
+            unit_price: line.unit_price,
+            subtotal: line.subtotal,
+            discount_type: line.discount_type,
+            discount_value: line.discount_value,
+            discount_amount: line.discount_amount,
+            discount_reason_id: line.discount_reason_id,
+            tax_rate: line.tax_rate,
+            tax_base: line.tax_base,
+            tax_amount: line.tax_amount,
+            // Lo vendido sin conexión ya se entregó y las tarjetas de regalo no pasan por cocina
+            ...(input.synced_at || line.is_gift_card ? { kitchen_status: "delivered" as const, delivered_at: createdAt } : { kitchen_status: "pending" as const }),
+            sale_id: saleBufferId,
+            product_id: line.product_id,
+            combo_id: line.combo_id,
+            loyalty_reward_id: line.loyalty_reward_id,
+            gift_card_id: line.gift_card_id,
+            note: line.note,
+        })),
+    });
+    await createSaleLineModifiers(tx, issuedLines, saleDetailIds);
+    await createSaleLineComboItems(tx, issuedLines, saleDetailIds);
+
+    // Canjea las recompensas y acumula los puntos del cliente en la misma transacción
+    await applySaleLoyalty(tx, saleBufferId);
+
+    const chargedPayments = await chargeGiftCardPayments(tx, resolvedPayments, { id: saleBufferId, branch_id: branchId });
+    await tx.sale_payment.createMany({
+        data: chargedPayments.map((payment) => ({
+            id: uuidToBuffer(uuidv4()),
+            created_at: createdAt,
+            updated_at: new Date(),
+            method: payment.method,
+            amount: payment.amount,
+            tendered: payment.tendered,
+            change: payment.change,
+            sale_id: saleBufferId,
+            payment_method_id: payment.payment_method_id,
+            gift_card_id: payment.gift_card_id,
+        })),
+    });
+
+    return saleBufferId;
+}
 
 export const SaleController = {
     async createSale(req: any, res: any) {
-        const {total, payment_method, user_id} = req.body;
+        const {payment_method, user_id, customer_id} = req.body;
         try {
             const uuid = uuidv4();
             const saleBufferId = uuidToBuffer(uuid);
-            const newSale = await prisma.sale.create({
+            // La venta se liga al turno de caja abierto en la sucursal del usuario
+            const branchId = await getUserBranchId(prisma, user_id);
+            // Los cargos por tipo de orden solo se aplican en órdenes completas (createOrder)
+            const customer = await resolveSaleCustomer(prisma, customer_id, branchId);
+            const orderInfo = resolveOrderInfo(withCustomerContact(req.body, customer));
+            const shiftId = await getOpenShiftId(prisma, branchId);
+            const taxConfig = await getBranchTaxConfig(prisma, branchId);
+
+            // El total no se recibe del cliente; se acumula al registrar cada detalle de venta.
+            // El número de ticket se asigna en la misma transacción que crea la venta.
+            const businessDate = getBusinessDate(await getBranchTimeZone(prisma, branchId));
+            await assertBusinessDayOpen(prisma, branchId, businessDate);
+            const newSale = await prisma.$transaction(async (tx) => tx.sale.create({
                 data: {
                     id: saleBufferId,
                     created_at: new Date(),
                     updated_at: new Date(),
-                    total: total,
+                    total: 0,
+                    prices_include_tax: taxConfig.prices_include_tax,
+                    ticket_number: await assignTicketNumber(tx, branchId, businessDate),
+                    business_date: new Date(`${businessDate}T00:00:00Z`),
+                    ...orderInfo,
                     payment_method: payment_method,
+                    shift_id: shiftId,
+                    branch_id: branchId,
+                    customer_id: customer ? customer.id : null,
                     user_id: uuidToBuffer(user_id),
                 },
                 select: {
@@ -22,9 +264,14 @@ export const SaleController = {
                     created_at: true,
                     updated_at: true,
                     total: true,
+                    ticket_number: true,
+                    business_date: true,
+                    order_type: true,
+                    customer_name: true,
+                    shift_id: true,
                     user_id: true,
                 },
-            });
+            }));
 
             if (!newSale) {
                 return res.status(400).json({ message: "Error al insertar venta" });
@@ -33,23 +280,205 @@ export const SaleController = {
             const formattedSale = {
                 ...newSale,
                 id: bufferToUuid(Buffer.from(newSale.id)),
+                business_date: newSale.business_date.toISOString().slice(0, 10),
+                shift_id: newSale.shift_id ? bufferToUuid(Buffer.from(newSale.shift_id)) : null,
                 user_id: bufferToUuid(Buffer.from(newSale.user_id)),
             };
 
             res.status(200).json(formattedSale);
         } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
             return res.status(500).json({ message: "Error de servidor" + error });
         }
     },
+    async createOrder(req: any, res: any) {
+        const { user_id } = req.body;
+        try {
+            // La venta, sus líneas y sus pagos se escriben en una sola transacción
+            const newSale = await prisma.$transaction(async (tx) => {
+                const saleId = await createSaleRecord(tx, {
+                    ...req.body,
+                    id: undefined,
+                    created_at: undefined,
+                    synced_at: undefined,
+                    user_id: user_id || req.user.id,
+                });
+
+                return tx.sale.findUnique({
+                    where: {
+                        id: saleId
+                    },
+                    select: saleRecordSelect,
+                });
+            });
+
+            if (!newSale) {
+                return res.status(400).json({ message: "Error al insertar venta" });
+            }
+
+            res.status(200).json(formatSaleRecord(newSale));
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Sincroniza ventas capturadas sin conexión. Se insertan en el orden recibido, cada una en su
+    // propia transacción; las que ya existen se omiten, así que el lote puede reenviarse completo.
+    async syncSales(req: any, res: any) {
+        const { sales, branch_id } = req.body;
+        try {
+            if (!Array.isArray(sales) || sales.length === 0) {
+                return res.status(400).json({ message: "Debe enviar al menos una venta" });
+            }
+
+            // Solo se aceptan ventas de las sucursales asignadas al usuario que sincroniza;
+            // sin sucursal se usa la suya
+            const userBranches = await prisma.user_branch.findMany({
+                where: {
+                    user_id: uuidToBuffer(req.user.id)
+                },
+                select: {
+                    branch_id: true
+                }
+            });
+            const allowedBranches = new Set(userBranches.map((userBranch) => bufferToUuid(Buffer.from(userBranch.branch_id)).toLowerCase()));
+            const defaultBranchId = userBranches.length > 0 ? bufferToUuid(Buffer.from(userBranches[0].branch_id)) : null;
+
+            const results = [];
+            for (const sale of sales) {
+                if (!sale || typeof sale !== "object") {
+                    results.push({ id: null, status: "failed", message: "La venta debe ser un objeto" });
+                    continue;
+                }
+                const createdAt = new Date(sale.created_at);
+                if (typeof sale.id !== "string" || !UUID_PATTERN.test(sale.id)) {
+                    results.push({ id: sale.id ?? null, status: "failed", message: "El id de la venta debe ser un UUID" });
+                    continue;
+                }
+                if (!sale.created_at || isNaN(createdAt.getTime()) || createdAt > new Date()) {
+                    results.push({ id: sale.id, status: "failed", message: "Fecha de venta inválida" });
+                    continue;
+                }
+                const saleBranchId = sale.branch_id || branch_id || defaultBranchId;
+                if (typeof saleBranchId !== "string" || !allowedBranches.has(saleBranchId.toLowerCase())) {
+                    results.push({ id: sale.id, status: "failed", message: "La sucursal de la venta no está asignada al usuario" });
+                    continue;
+                }
+
+                try {
+                    const result = await prisma.$transaction(async (tx) => {
+                        const existingSale = await tx.sale.findUnique({
+                            where: {
+                                id: uuidToBuffer(sale.id)
+                            },
+                            select: {
+                                ticket_number: true,
+                                business_date: true,
+                                total: true,
+                            }
+                        });
+
+                        if (existingSale) {
+                            return { status: "skipped", sale: existingSale };
+                        }
+
+                        const saleId = await createSaleRecord(tx, {
+                            ...sale,
+                            created_at: createdAt,
+                            synced_at: new Date(),
+                            user_id: sale.user_id || req.user.id,
+                            branch_id: saleBranchId,
+                        });
+
+                        return {
+                            status: "created",
+                            sale: await tx.sale.findUnique({
+                                where: {
+                                    id: saleId
+                                },
+                                select: {
+                                    ticket_number: true,
+                                    business_date: true,
+                                    total: true,
+                                }
+                            }),
+                        };
+                    });
+
+                    results.push({
+                        id: sale.id,
+                        status: result.status,
+                        ticket_number: result.sale.ticket_number,
+                        business_date: result.sale.business_date ? result.sale.business_date.toISOString().slice(0, 10) : null,
+                        total: result.sale.total,
+                    });
+                } catch (error) {
+                    // Otra petición sincronizó la misma venta al mismo tiempo
+                    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+                        results.push({ id: sale.id, status: "skipped" });
+                        continue;
+                    }
+                    results.push({
+                        id: sale.id,
+                        status: "failed",
+                        message: error instanceof SaleError ? error.message : "Error de servidor: " + error,
+                    });
+                }
+            }
+
+            res.status(200).json({
+                created: results.filter((result) => result.status === "created").length,
+                skipped: results.filter((result) => result.status === "skipped").length,
+                failed: results.filter((result) => result.status === "failed").length,
+                results: results,
+            });
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    // Historial de ventas paginado por cursor: el cursor es el id de la última venta de la página anterior.
+    // Con summary=true se agregan los totales de todo el conjunto filtrado, no solo de la página.
     async getAllSales(req: any, res: any) {
+        const { cursor, limit, sort, order, summary } = req.query;
         try {
+            const whereClause = buildSaleFilter(req.query);
+            const orderBy = buildSaleOrder(sort, order);
+            const pageSize = parsePageSize(limit);
+            const cursorId = parseSaleCursor(cursor);
+
             const sales = await prisma.sale.findMany({
+                where: whereClause,
+                orderBy: orderBy,
+                cursor: cursorId ? {
+                    id: cursorId
+                } : undefined,
+                skip: cursorId ? 1 : 0,
+                take: pageSize + 1,
                 select: {
                     id: true,
                     created_at: true,
                     updated_at: true,
+                    ticket_number: true,
+                    business_date: true,
+                    order_type: true,
+                    customer_name: true,
+                    customer_phone: true,
+                    delivery_address: true,
+                    surcharge_total: true,
                     total: true,
+                    discount_amount: true,
+                    discount_total: true,
+                    tax_base: true,
+                    tax_amount: true,
+                    prices_include_tax: true,
                     payment_method: true,
+                    status: true,
+                    branch_id: true,
+                    customer_id: true,
                     user_id: true,
                     user:{
                         select:{
@@ -62,7 +491,12 @@ export const SaleController = {
                             created_at: true,
                             updated_at: true,
                             amount: true,
+                            unit_price: true,
                             subtotal: true,
+                            discount_amount: true,
+                            tax_rate: true,
+                            tax_base: true,
+                            tax_amount: true,
                             sale_id: true,
                             product_id: true,
                             combo_id: true,
@@ -80,14 +514,32 @@ export const SaleController = {
                                 }
                             }
                         }
+                    },
+                    sale_payment: {
+                        select: {
+                            method: true,
+                            amount: true,
+                            tendered: true,
+                            change: true,
+                        }
                     }
                 },
             });
             
-            const formattedSales = sales.map((sale) => ({
+            const hasMore = sales.length > pageSize;
+            const page = hasMore ? sales.slice(0, pageSize) : sales;
+
+            const formattedSales = page.map((sale) => ({
                 ...sale,
                 id: bufferToUuid(Buffer.from(sale.id)),
+                business_date: sale.business_date ? sale.business_date.toISOString().slice(0, 10) : null,
+                branch_id: sale.branch_id ? bufferToUuid(Buffer.from(sale.branch_id)) : null,
+                customer_id: sale.customer_id ? bufferToUuid(Buffer.from(sale.customer_id)) : null,
                 user_id: bufferToUuid(Buffer.from(sale.user_id)),
+                // Desglose fiscal: importe antes de impuestos, IVA y total cobrado
+                net: sale.tax_base,
+                tax: sale.tax_amount,
+                gross: roundMoney(sale.tax_base + sale.tax_amount),
                 sale_detail: sale.sale_detail.map((detail: any) => ({
                     ...detail,
                     id: bufferToUuid(Buffer.from(detail.id)),
@@ -97,23 +549,80 @@ export const SaleController = {
                 }))
             }));
 
-            res.status(200).json(formattedSales);
+            let totals = null;
+            if (summary === "true") {
+                const aggregate = await prisma.sale.aggregate({
+                    where: whereClause,
+                    _count: {
+                        _all: true
+                    },
+                    _sum: {
+                        total: true,
+                        discount_total: true,
+                        surcharge_total: true,
+                        tax_base: true,
+                        tax_amount: true,
+                    }
+                });
+
+                totals = {
+                    count: aggregate._count._all,
+                    total: roundMoney(aggregate._sum.total || 0),
+                    discounts: roundMoney(aggregate._sum.discount_total || 0),
+                    surcharges: roundMoney(aggregate._sum.surcharge_total || 0),
+                    net: roundMoney(aggregate._sum.tax_base || 0),
+                    tax: roundMoney(aggregate._sum.tax_amount || 0),
+                };
+            }
+
+            res.status(200).json({
+                data: formattedSales,
+                next_cursor: hasMore ? formattedSales[formattedSales.length - 1].id : null,
+                summary: totals,
+            });
         } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
             return res.status(500).json({ message: "Error de servidor" + error });
         }
     },
     async updateSale(req: any, res: any) {
-        const {id, total, payment_method, user_id } = req.body;
+        const {id, payment_method, user_id, customer_id, customer_name, customer_phone, delivery_address } = req.body;
         
         try {
+            // El cliente se puede ligar después de registrar la venta, o quitarse enviando customer_id null
+            let customerId = undefined;
+            if (customer_id !== undefined) {
+                const sale = await prisma.sale.findUnique({
+                    where: {
+                        id: uuidToBuffer(id)
+                    },
+                    select: {
+                        branch_id: true,
+                        user_id: true,
+                    }
+                });
+
+                if (!sale) {
+                    return res.status(404).json({ message: "Venta no encontrada" });
+                }
+
+                customerId = customer_id ? (await resolveSaleCustomer(prisma, customer_id, await getSaleBranchId(prisma, sale))).id : null;
+            }
+
+            // El tipo de orden no se cambia aquí porque determina los cargos ya cobrados
             const updatedSale = await prisma.sale.update({
                 where: {
                     id: uuidToBuffer(id)
                 },
                 data: {
                     updated_at: new Date(),
-                    total: total,
                     payment_method: payment_method,
+                    customer_name: customer_name,
+                    customer_phone: customer_phone,
+                    delivery_address: delivery_address,
+                    customer_id: customerId,
                     user_id: user_id ? uuidToBuffer(user_id) : undefined,
                 },
                 select: {
@@ -122,6 +631,11 @@ export const SaleController = {
                     updated_at: true,
                     total: true,
                     payment_method: true,
+                    order_type: true,
+                    customer_name: true,
+                    customer_phone: true,
+                    delivery_address: true,
+                    customer_id: true,
                     user_id: true,
                 }
             });
@@ -133,43 +647,156 @@ export const SaleController = {
             const formattedSale = {
                 ...updatedSale,
                 id: bufferToUuid(Buffer.from(updatedSale.id)),
+                customer_id: updatedSale.customer_id ? bufferToUuid(Buffer.from(updatedSale.customer_id)) : null,
                 user_id: bufferToUuid(Buffer.from(updatedSale.user_id)),
             };
 
             res.status(200).json(formattedSale);
         } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
             return res.status(500).json({ message: "Error de servidor: " + error });
         }
     },
-    async deleteSale(req: any, res: any) {
-        const { id } = req.body;
+    async voidSale(req: any, res: any) {
+        const { id, reason, authorized_by } = req.body;
         
         try {
-            // Usar una transacción para eliminar tanto la venta como sus detalles
-            const deletedSale = await prisma.$transaction(async (tx) => {
-                // Primero eliminamos los detalles de venta
-                await tx.sale_detail.deleteMany({
+            if (!reason || !String(reason).trim()) {
+                return res.status(400).json({ message: "El motivo de cancelación es obligatorio" });
+            }
+
+            const voidedSale = await prisma.$transaction(async (tx) => {
+                const authorizer = await resolveAuthorizer(tx, authorized_by, req.user.id);
+
+                // Solo se cancelan ventas sin devoluciones; la venta se conserva para los reportes.
+                // El cambio de estado es condicional para que dos cancelaciones simultáneas no reviertan dos veces.
+                const voided = await tx.sale.updateMany({
                     where: {
-                        sale_id: uuidToBuffer(id)
+                        id: uuidToBuffer(id),
+                        status: "completed"
+                    },
+                    data: {
+                        status: "voided",
+                        void_reason: String(reason).trim(),
+                        voided_at: new Date(),
+                        voided_by: authorizer,
+                        updated_at: new Date(),
                     }
                 });
 
-                // Luego eliminamos la venta
-                const deletedSale = await tx.sale.delete({
+                const sale = await tx.sale.findUnique({
                     where: {
                         id: uuidToBuffer(id)
+                    },
+                    select: {
+                        branch_id: true,
+                        user_id: true,
                     }
                 });
+                if (!sale) {
+                    throw new SaleError("Venta no encontrada", 404);
+                }
+                if (voided.count === 0) {
+                    throw new SaleError("Solo se pueden cancelar ventas completadas sin devoluciones", 409);
+                }
+
+                // La cancelación cuenta en el día en que se hace
+                const branchId = await getSaleBranchId(tx, sale);
+                await assertBusinessDayOpen(tx, branchId, getBusinessDate(await getBranchTimeZone(tx, branchId)));
+
+                // Al cancelar se devuelven los puntos canjeados y se retiran los ganados con la venta;
+                // lo pagado con tarjeta de regalo regresa a su saldo y las tarjetas vendidas se cancelan
+                await reverseSaleLoyalty(tx, uuidToBuffer(id));
+                await reverseSaleGiftCards(tx, uuidToBuffer(id));
 
-                return deletedSale;
+                // El reembolso sale de la caja del turno abierto al momento de la cancelación
+                return tx.sale.update({
+                    where: {
+                        id: uuidToBuffer(id)
+                    },
+                    data: {
+                        void_shift_id: await getOpenShiftId(tx, branchId),
+                    },
+                    select: {
+                        id: true,
+                        total: true,
+                        status: true,
+                        void_reason: true,
+                        voided_at: true,
+                        voided_by: true,
+                    }
+                });
             });
 
-            if (!deletedSale) {
-                return res.status(404).json({ message: "Venta no encontrada" });
+            const formattedSale = {
+                ...voidedSale,
+                id: bufferToUuid(Buffer.from(voidedSale.id)),
+                voided_by: bufferToUuid(Buffer.from(voidedSale.voided_by)),
+            };
+
+            res.status(200).json(formattedSale);
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getSaleReceipt(req: any, res: any) {
+        const { id } = req.params;
+        const format: ReceiptFormat = req.query.format || 'text';
+
+        try {
+            if (!RECEIPT_WIDTHS[format]) {
+                return res.status(400).json({ message: "Formato inválido. Use escpos58, escpos80, text o pdf" });
             }
 
-            res.status(200).json({ message: "Venta y sus detalles eliminados correctamente" });
+            // Cada impresión se cuenta para marcar las reimpresiones como copia
+            const receipt = await prisma.$transaction(async (tx) => {
+                const sale = await tx.sale.findUnique({
+                    where: {
+                        id: uuidToBuffer(id)
+                    },
+                    select: {
+                        id: true
+                    }
+                });
+
+                if (!sale) {
+                    throw new SaleError("Venta no encontrada", 404);
+                }
+
+                await tx.sale.update({
+                    where: {
+                        id: sale.id
+                    },
+                    data: {
+                        receipt_print_count: {
+                            increment: 1
+                        }
+                    }
+                });
+
+                return buildReceipt(tx, sale.id);
+            });
+
+            if (format === 'pdf') {
+                return res
+                    .status(200)
+                    .type('application/pdf')
+                    .set('Content-Disposition', `inline; filename="ticket-${receipt.sale_id}.pdf"`)
+                    .send(renderReceiptPdf(receipt));
+            }
+            if (format === 'escpos58' || format === 'escpos80') {
+                return res.status(200).type('application/octet-stream').send(renderReceiptEscPos(receipt, RECEIPT_WIDTHS[format]));
+            }
+            res.status(200).type('text/plain').send(renderReceiptText(receipt));
         } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
             return res.status(500).json({ message: "Error de servidor: " + error });
         }
     },
@@ -188,14 +815,15 @@ export const SaleController = {
             const startDate = new Date(`${date}T00:00:00-06:00`);
             const endDate = new Date(`${date}T23:59:59.999-06:00`);
 
-            console.log('Buscando ventas entre:', startDate.toISOString(), 'y', endDate.toISOString());
-
             const sales = await prisma.sale.findMany({
                 where: {
                     created_at: {
                         gte: startDate,
                         lte: endDate
                     },
+                    status: {
+                        not: "open"
+                    },
                     user_id: uuidToBuffer(user_id)
                 },
                 orderBy: {
@@ -206,24 +834,66 @@ export const SaleController = {
                     created_at: true,
                     updated_at: true,
                     total: true,
+                    discount_total: true,
+                    gift_card_total: true,
+                    tax_base: true,
+                    tax_amount: true,
                     payment_method: true,
+                    status: true,
+                    void_reason: true,
                     user_id: true,
                     user: {
                         select: {
                             name: true
                         }
+                    },
+                    sale_payment: {
+                        select: {
+                            method: true,
+                            amount: true,
+                            tendered: true,
+                            change: true,
+                        }
                     }
                 }
             });
 
-            // Calculate totals by payment method
-            const totals = sales.reduce((acc: any, sale) => {
-                if (!acc[sale.payment_method]) {
-                    acc[sale.payment_method] = 0;
+            // Cancelaciones y devoluciones del día se reportan como ajustes negativos
+            const voidedSales = await prisma.sale.aggregate({
+                where: {
+                    voided_at: {
+                        gte: startDate,
+                        lte: endDate
+                    },
+                    user_id: uuidToBuffer(user_id)
+                },
+                _sum: {
+                    total: true,
+                    gift_card_total: true
                 }
-                acc[sale.payment_method] += Number(sale.total);
-                return acc;
-            }, {});
+            });
+
+            const refunds = await prisma.sale_refund.findMany({
+                where: {
+                    created_at: {
+                        gte: startDate,
+                        lte: endDate
+                    },
+                    sale: {
+                        user_id: uuidToBuffer(user_id)
+                    }
+                },
+                select: refundAmountSelect
+            });
+
+            const adjustments = {
+                voids: -((voidedSales._sum.total || 0) - (voidedSales._sum.gift_card_total || 0)),
+                refunds: -roundMoney(refunds.reduce((sum, refund) => sum + getRefundAmount(refund), 0)),
+            };
+
+            // Calculate totals by tender
+            const totals = sumPaymentsByMethod(sales);
+            const paymentMethods = await getPaymentMethods(prisma, await getUserBranchId(prisma, user_id));
 
             const formattedSales = sales.map((sale) => ({
                 ...sale,
@@ -231,12 +901,28 @@ export const SaleController = {
                 user_id: bufferToUuid(Buffer.from(sale.user_id)),
             }));
 
+            // Las tarjetas de regalo vendidas se cobran pero son un pasivo, no una venta
+            const giftCardsSold = roundMoney(sales.reduce((sum, sale) => sum + sale.gift_card_total, 0));
+            const grossTotal: number = roundMoney((Object.values(totals).reduce((a: any, b: any) => a + b, 0) as number) - giftCardsSold);
+            const taxBase = roundMoney(sales.reduce((sum, sale) => sum + sale.tax_base, 0));
+            const taxAmount = roundMoney(sales.reduce((sum, sale) => sum + sale.tax_amount, 0));
+
             res.status(200).json({
                 sales: formattedSales,
                 summary: {
                     totalSales: sales.length,
                     paymentMethodTotals: totals,
-                    grandTotal: Object.values(totals).reduce((a: any, b: any) => a + b, 0)
+                    paymentMethods: describePaymentTotals(totals, paymentMethods),
+                    grossTotal: grossTotal,
+                    discounts: roundMoney(sales.reduce((sum, sale) => sum + sale.discount_total, 0)),
+                    adjustments: adjustments,
+                    giftCardsSold: giftCardsSold,
+                    taxes: {
+                        net: taxBase,
+                        tax: taxAmount,
+                        gross: roundMoney(taxBase + taxAmount),
+                    },
+                    grandTotal: roundMoney(grossTotal + adjustments.voids + adjustments.refunds)
                 }
             });
         } catch (error) {
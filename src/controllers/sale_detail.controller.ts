@@ -1,33 +1,133 @@
 import prisma from "../lib/prisma";
 import { v4 as uuidv4 } from "uuid";
 import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { applySaleTaxes, computeDiscountAmount, computeLineTax, resolveSaleLines, roundMoney, SaleError } from "../utils/sale";
+import { getBranchTaxConfig, getBranchTimeZone, getSaleBranchId } from "../utils/branch";
+import { applySaleLoyalty, reverseSaleLoyalty } from "../utils/loyalty";
+import { createSaleLineModifiers } from "../utils/modifier";
+import { createSaleLineComboItems } from "../utils/combo";
+import { assertBusinessDayOpen, getBusinessDate } from "../utils/report";
 
 export const SaleDetailController = {
     async createSaleDetail(req: any, res: any) {
-        const { amount, subtotal, sale_id, product_id, combo_id, note} = req.body;
+        const { amount, sale_id, product_id, combo_id, reward_id, note, discount, modifiers, combo_items } = req.body;
         try {
-            const uuid = uuidv4();
-            const saleDetailBufferId = uuidToBuffer(uuid);
-            const newSaleDetail = await prisma.sale_detail.create({
-                data: {
-                    id: saleDetailBufferId,
-                    created_at: new Date(),
-                    updated_at: new Date(),
-                    amount: amount,
-                    subtotal: subtotal,
-                    sale_id: uuidToBuffer(sale_id),
-                    product_id: product_id ? uuidToBuffer(product_id) : null,
-                    combo_id: combo_id ? uuidToBuffer(combo_id) : null,
-                    note: note
-                },
-                select: {
-                    id: true,
-                    created_at: true,
-                    updated_at: true,
-                    sale_id: true,
-                    product_id: true,
-                    combo_id: true,
-                },
+            // El subtotal se calcula con el precio del catálogo y el neto se acumula en el total de la venta
+            const { newSaleDetail, updatedSale } = await prisma.$transaction(async (tx) => {
+                const sale = await tx.sale.findUnique({
+                    where: {
+                        id: uuidToBuffer(sale_id)
+                    },
+                    select: {
+                        branch_id: true,
+                        user_id: true,
+                        status: true,
+                        prices_include_tax: true,
+                        created_at: true,
+                        business_date: true,
+                        _count: {
+                            select: {
+                                sale_payment: true
+                            }
+                        }
+                    }
+                });
+
+                if (!sale) {
+                    throw new SaleError("Venta no encontrada", 404);
+                }
+                // Solo se agregan líneas a órdenes abiertas o a ventas creadas con createSale que aún no tienen pagos;
+                // en una venta ya cobrada el total dejaría de cuadrar con sus pagos y con el turno de caja
+                if (sale.status !== "open" && !(sale.status === "completed" && sale._count.sale_payment === 0)) {
+                    throw new SaleError("La venta ya fue cobrada o cancelada; no se le pueden agregar líneas", 409);
+                }
+
+                // La línea cambia los totales del día de la venta, que no debe estar cerrado con reporte Z
+                const branchId = await getSaleBranchId(tx, sale);
+                await assertBusinessDayOpen(tx, branchId, sale.business_date
+                    ? sale.business_date.toISOString().slice(0, 10)
+                    : getBusinessDate(await getBranchTimeZone(tx, branchId), sale.created_at));
+
+                // El IVA usa la tasa de la sucursal y el modo de precios registrado en la venta
+                const taxConfig = await getBranchTaxConfig(tx, branchId);
+                const [line] = applySaleTaxes(
+                    await resolveSaleLines(tx, [{ amount, product_id, combo_id, reward_id, note, discount, modifiers, combo_items }]),
+                    { tax_rate: taxConfig.tax_rate, prices_include_tax: sale.prices_include_tax }
+                );
+
+                const uuid = uuidv4();
+                const saleDetailBufferId = uuidToBuffer(uuid);
+                const newSaleDetail = await tx.sale_detail.create({
+                    data: {
+                        id: saleDetailBufferId,
+                        created_at: new Date(),
+                        updated_at: new Date(),
+                        amount: line.amount,
+                        unit_price: line.unit_price,
+                        subtotal: line.subtotal,
+                        discount_type: line.discount_type,
+                        discount_value: line.discount_value,
+                        discount_amount: line.discount_amount,
+                        discount_reason_id: line.discount_reason_id,
+                        tax_rate: line.tax_rate,
+                        tax_base: line.tax_base,
+                        tax_amount: line.tax_amount,
+                        kitchen_status: "pending",
+                        sale_id: uuidToBuffer(sale_id),
+                        product_id: line.product_id,
+                        combo_id: line.combo_id,
+                        loyalty_reward_id: line.loyalty_reward_id,
+                        note: line.note
+                    },
+                    select: {
+                        id: true,
+                        created_at: true,
+                        updated_at: true,
+                        amount: true,
+                        unit_price: true,
+                        subtotal: true,
+                        discount_amount: true,
+                        tax_rate: true,
+                        tax_base: true,
+                        tax_amount: true,
+                        sale_id: true,
+                        product_id: true,
+                        combo_id: true,
+                    },
+                });
+                await createSaleLineModifiers(tx, [line], [saleDetailBufferId]);
+                await createSaleLineComboItems(tx, [line], [saleDetailBufferId]);
+
+                const updatedSale = await tx.sale.update({
+                    where: {
+                        id: uuidToBuffer(sale_id)
+                    },
+                    data: {
+                        total: {
+                            increment: line.total
+                        },
+                        discount_total: {
+                            increment: line.discount_amount
+                        },
+                        tax_base: {
+                            increment: line.tax_base
+                        },
+                        tax_amount: {
+                            increment: line.tax_amount
+                        },
+                        updated_at: new Date()
+                    },
+                    select: {
+                        total: true,
+                    }
+                });
+
+                // En las órdenes abiertas los puntos se aplican al cerrarlas
+                if (sale.status !== "open") {
+                    await applySaleLoyalty(tx, uuidToBuffer(sale_id), [saleDetailBufferId]);
+                }
+
+                return { newSaleDetail, updatedSale };
             });
 
             if (!newSaleDetail) {
@@ -40,10 +140,14 @@ export const SaleDetailController = {
                 sale_id: bufferToUuid(Buffer.from(newSaleDetail.sale_id)),
                 product_id: newSaleDetail.product_id ? bufferToUuid(Buffer.from(newSaleDetail.product_id)) : null,
                 combo_id: newSaleDetail.combo_id ? bufferToUuid(Buffer.from(newSaleDetail.combo_id)) : null,
+                sale_total: roundMoney(updatedSale.total),
             };
 
             res.status(200).json(formattedSaleDetail);
         } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
             return res.status(500).json({ message: "Error de servidor" + error });
         }
     },
@@ -55,6 +159,7 @@ export const SaleDetailController = {
                     created_at: true,
                     updated_at: true,
                     amount: true,
+                    unit_price: true,
                     subtotal: true,
                     sale_id: true,
                     product_id: true,
@@ -87,11 +192,13 @@ export const SaleDetailController = {
                     created_at: true,
                     updated_at: true,
                     amount: true,
+                    unit_price: true,
                     subtotal: true,
                     sale_id: true,
                     product_id: true,
                     combo_id: true,
                     note: true,
+                    kitchen_status: true,
                     product: {
                         select: {
                             name: true,
@@ -122,37 +229,107 @@ export const SaleDetailController = {
     },
     async updateSaleDetail(req: any, res: any) {
         const { id } = req.params;
-        const { amount, subtotal, sale_id, product_id, combo_id } = req.body;
+        const { amount, note } = req.body;
         
         try {
-            const updatedSaleDetail = await prisma.sale_detail.update({
+            if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+                return res.status(400).json({ message: "Cantidad inválida" });
+            }
+
+            const saleDetail = await prisma.sale_detail.findUnique({
                 where: {
                     id: uuidToBuffer(id)
                 },
-                data: {
-                    updated_at: new Date(),
-                    amount: amount,
-                    subtotal: subtotal,
-                    sale_id: sale_id ? uuidToBuffer(sale_id) : undefined,
-                    product_id: product_id ? uuidToBuffer(product_id) : null,
-                    combo_id: combo_id ? uuidToBuffer(combo_id) : null,
-                },
                 select: {
-                    id: true,
-                    created_at: true,
-                    updated_at: true,
                     amount: true,
+                    unit_price: true,
                     subtotal: true,
+                    discount_type: true,
+                    discount_value: true,
+                    discount_amount: true,
+                    tax_rate: true,
+                    tax_base: true,
+                    tax_amount: true,
                     sale_id: true,
-                    product_id: true,
-                    combo_id: true,
-                },
+                    sale: {
+                        select: {
+                            status: true,
+                            prices_include_tax: true,
+                        }
+                    },
+                }
             });
 
-            if (!updatedSaleDetail) {
+            if (!saleDetail) {
                 return res.status(404).json({ message: "Detalle de venta no encontrado" });
             }
 
+            // El subtotal y el descuento se recalculan con el precio registrado al momento de la venta
+            const newAmount = amount !== undefined ? amount : saleDetail.amount;
+            const newSubtotal = roundMoney(saleDetail.unit_price * newAmount);
+            const newDiscountAmount = saleDetail.discount_type
+                ? computeDiscountAmount(newSubtotal, { type: saleDetail.discount_type, value: saleDetail.discount_value })
+                : 0;
+            const newTax = computeLineTax(newSubtotal - newDiscountAmount, saleDetail.tax_rate, saleDetail.sale.prices_include_tax);
+            const previousTax = computeLineTax(saleDetail.subtotal - saleDetail.discount_amount, saleDetail.tax_rate, saleDetail.sale.prices_include_tax);
+
+            const updatedSaleDetail = await prisma.$transaction(async (tx) => {
+                const updatedSaleDetail = await tx.sale_detail.update({
+                    where: {
+                        id: uuidToBuffer(id)
+                    },
+                    data: {
+                        updated_at: new Date(),
+                        amount: newAmount,
+                        subtotal: newSubtotal,
+                        discount_amount: newDiscountAmount,
+                        tax_base: newTax.tax_base,
+                        tax_amount: newTax.tax_amount,
+                        note: note,
+                    },
+                    select: {
+                        id: true,
+                        created_at: true,
+                        updated_at: true,
+                        amount: true,
+                        unit_price: true,
+                        subtotal: true,
+                        sale_id: true,
+                        product_id: true,
+                        combo_id: true,
+                    },
+                });
+
+                await tx.sale.update({
+                    where: {
+                        id: saleDetail.sale_id
+                    },
+                    data: {
+                        total: {
+                            increment: roundMoney(newTax.total - previousTax.total)
+                        },
+                        discount_total: {
+                            increment: roundMoney(newDiscountAmount - saleDetail.discount_amount)
+                        },
+                        tax_base: {
+                            increment: roundMoney(newTax.tax_base - saleDetail.tax_base)
+                        },
+                        tax_amount: {
+                            increment: roundMoney(newTax.tax_amount - saleDetail.tax_amount)
+                        },
+                        updated_at: new Date()
+                    }
+                });
+
+                // Si cambia la cantidad, los puntos de la línea se revierten y se vuelven a aplicar
+                if (newAmount !== saleDetail.amount && saleDetail.sale.status !== "open") {
+                    await reverseSaleLoyalty(tx, saleDetail.sale_id, uuidToBuffer(id));
+                    await applySaleLoyalty(tx, saleDetail.sale_id, [uuidToBuffer(id)]);
+                }
+
+                return updatedSaleDetail;
+            });
+
             const formattedSaleDetail = {
                 ...updatedSaleDetail,
                 id: bufferToUuid(Buffer.from(updatedSaleDetail.id)),
@@ -163,49 +340,79 @@ export const SaleDetailController = {
 
             res.status(200).json(formattedSaleDetail);
         } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
             return res.status(500).json({ message: "Error de servidor: " + error });
         }
     },
+    // Solo se eliminan líneas de órdenes abiertas; una venta cobrada se corrige con una devolución o cancelación
     async deleteSaleDetail(req: any, res: any) {
         const { id } = req.body;
         
         try {
-            // Primero obtenemos el detalle de venta para saber el subtotal y sale_id
-            const saleDetail = await prisma.sale_detail.findUnique({
-                where: {
-                    id: uuidToBuffer(id)
-                },
-                select: {
-                    subtotal: true,
-                    sale_id: true,
-                }
-            });
-
-            if (!saleDetail) {
-                return res.status(404).json({ message: "Detalle de venta no encontrado" });
-            }
+            const deletedSaleDetail = await prisma.$transaction(async (tx) => {
+                // Obtenemos el detalle de venta para saber el subtotal y sale_id
+                const saleDetail = await tx.sale_detail.findUnique({
+                    where: {
+                        id: uuidToBuffer(id)
+                    },
+                    select: {
+                        subtotal: true,
+                        discount_amount: true,
+                        tax_base: true,
+                        tax_amount: true,
+                        sale_id: true,
+                        sale: {
+                            select: {
+                                status: true,
+                                prices_include_tax: true,
+                            }
+                        },
+                    }
+                });
 
-            // Eliminamos el detalle de venta
-            const deletedSaleDetail = await prisma.sale_detail.delete({
-                where: {
-                    id: uuidToBuffer(id)
-                },
-                select: {
-                    id: true,
+                if (!saleDetail) {
+                    throw new SaleError("Detalle de venta no encontrado", 404);
+                }
+                if (saleDetail.sale.status !== "open") {
+                    throw new SaleError("La venta ya fue cobrada; use una devolución o una cancelación", 409);
                 }
-            });
 
-            // Actualizamos el total de la venta
-            await prisma.sale.update({
-                where: {
-                    id: saleDetail.sale_id
-                },
-                data: {
-                    total: {
-                        decrement: saleDetail.subtotal
+                // Eliminamos el detalle de venta
+                const deletedSaleDetail = await tx.sale_detail.delete({
+                    where: {
+                        id: uuidToBuffer(id)
                     },
-                    updated_at: new Date()
-                }
+                    select: {
+                        id: true,
+                    }
+                });
+
+                // Actualizamos el total de la venta
+                await tx.sale.update({
+                    where: {
+                        id: saleDetail.sale_id
+                    },
+                    data: {
+                        // Si los precios no incluyen IVA, el impuesto de la línea también se cobró en el total
+                        total: {
+                            decrement: roundMoney(saleDetail.subtotal - saleDetail.discount_amount + (saleDetail.sale.prices_include_tax ? 0 : saleDetail.tax_amount))
+                        },
+                        discount_total: {
+                            decrement: saleDetail.discount_amount
+                        },
+                        tax_base: {
+                            decrement: saleDetail.tax_base
+                        },
+                        tax_amount: {
+                            decrement: saleDetail.tax_amount
+                        },
+                        updated_at: new Date()
+                    }
+                });
+
+                return deletedSaleDetail;
             });
 
             res.status(200).json({ 
@@ -213,6 +420,9 @@ export const SaleDetailController = {
                 id: bufferToUuid(Buffer.from(deletedSaleDetail.id))
             });
         } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
             return res.status(500).json({ message: "Error de servidor: " + error });
         }
     },
@@ -0,0 +1,215 @@
+import prisma from "../lib/prisma";
+import { uuidToBuffer } from "../utils/common";
+import { getUserBranchId } from "../utils/branch";
+import { roundMoney, SaleError } from "../utils/sale";
+import { buildSaleFilter } from "../utils/sale_filter";
+import { DEFAULT_TIMEZONE, formatLocalDateTime, getLocalDayEnd, getLocalDayStart } from "../utils/timezone";
+import {
+    createCsvWriter,
+    createXlsxWriter,
+    EXPORT_BATCH_SIZE,
+    EXPORT_FORMATS,
+    EXPORT_LEVELS,
+    ExportFormat,
+    ExportLevel,
+    ExportWriter,
+    LINE_EXPORT_COLUMNS,
+    SALE_EXPORT_COLUMNS,
+} from "../utils/export";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const exportSaleSelect = {
+    id: true,
+    created_at: true,
+    ticket_number: true,
+    order_type: true,
+    payment_method: true,
+    status: true,
+    total: true,
+    discount_total: true,
+    surcharge_total: true,
+    tax_amount: true,
+    user: {
+        select: {
+            name: true
+        }
+    },
+    sale_detail: {
+        select: {
+            amount: true,
+            unit_price: true,
+            subtotal: true,
+            discount_amount: true,
+            tax_amount: true,
+            note: true,
+            gift_card_id: true,
+            product: {
+                select: {
+                    name: true
+                }
+            },
+            combo: {
+                select: {
+                    name: true
+                }
+            }
+        },
+        orderBy: {
+            created_at: 'asc' as const
+        }
+    }
+};
+
+// Nombre y tipo de una línea; las tarjetas de regalo vendidas no tienen producto ni combo
+const detailName = (detail: any) => detail.product?.name || detail.combo?.name || (detail.gift_card_id ? 'Tarjeta de regalo' : 'Desconocido');
+const detailType = (detail: any) => detail.product ? 'product' : detail.gift_card_id ? 'gift_card' : 'combo';
+
+// Filas del archivo para una venta: una por venta o una por línea de venta
+function buildExportRows(sale: any, level: ExportLevel, timeZone: string) {
+    const common = {
+        ticket_number: sale.ticket_number,
+        date: formatLocalDateTime(sale.created_at, timeZone),
+        cashier: sale.user.name,
+        payment_method: sale.payment_method,
+        status: sale.status,
+    };
+
+    if (level === "lines") {
+        return sale.sale_detail.map((detail: any) => ({
+            ...common,
+            name: detailName(detail),
+            type: detailType(detail),
+            quantity: detail.amount,
+            unit_price: detail.unit_price,
+            subtotal: detail.subtotal,
+            discount: detail.discount_amount,
+            tax: detail.tax_amount,
+            note: detail.note,
+        }));
+    }
+
+    return [{
+        ...common,
+        order_type: sale.order_type,
+        items: sale.sale_detail
+            .map((detail: any) => `${detail.amount}x ${detailName(detail)}`)
+            .join("; "),
+        quantity: sale.sale_detail.reduce((sum: number, detail: any) => sum + detail.amount, 0),
+        subtotal: roundMoney(sale.sale_detail.reduce((sum: number, detail: any) => sum + detail.subtotal, 0)),
+        discount: sale.discount_total,
+        surcharge: sale.surcharge_total,
+        tax: sale.tax_amount,
+        total: sale.total,
+    }];
+}
+
+export const SaleExportController = {
+    // Exporta las ventas (o sus líneas) de una sucursal en un rango de días locales de la sucursal.
+    // El archivo se escribe mientras se leen las ventas por lotes, así que un año completo no se carga en memoria.
+    async exportSales(req: any, res: any) {
+        const { start_date, end_date, branch_id, status } = req.query;
+        const format: ExportFormat = req.query.format || "csv";
+        const level: ExportLevel = req.query.level || "sales";
+        try {
+            if (!EXPORT_FORMATS.includes(format)) {
+                return res.status(400).json({ message: "Formato inválido. Use csv o xlsx" });
+            }
+            if (!EXPORT_LEVELS.includes(level)) {
+                return res.status(400).json({ message: "Nivel inválido. Use sales o lines" });
+            }
+            if (!DATE_PATTERN.test(start_date) || !DATE_PATTERN.test(end_date)) {
+                return res.status(400).json({ message: "Formato de fecha inválido. Use YYYY-MM-DD (ejemplo: 2023-10-18)" });
+            }
+            if (start_date > end_date) {
+                return res.status(400).json({ message: "La fecha inicial no puede ser posterior a la final" });
+            }
+
+            const branchId = branch_id ? uuidToBuffer(branch_id) : await getUserBranchId(prisma, req.user.id);
+            if (!branchId) {
+                return res.status(404).json({ message: "Usuario no está asociado a ninguna sucursal" });
+            }
+
+            const branch = await prisma.branch.findUnique({
+                where: {
+                    id: branchId
+                },
+                select: {
+                    timezone: true
+                }
+            });
+
+            if (!branch) {
+                return res.status(404).json({ message: "Sucursal no encontrada" });
+            }
+
+            // El rango de fechas se interpreta en la zona horaria de la sucursal
+            const timeZone = branch.timezone || DEFAULT_TIMEZONE;
+            const filter = buildSaleFilter({ ...req.query, start_date: undefined, end_date: undefined, branch_id: undefined });
+            const whereClause = {
+                AND: [
+                    filter,
+                    {
+                        branch_id: branchId,
+                        created_at: {
+                            gte: getLocalDayStart(start_date, timeZone),
+                            lt: getLocalDayEnd(end_date, timeZone),
+                        },
+                        // Las órdenes abiertas no se exportan salvo que se pidan por estado
+                        status: status === undefined ? { not: "open" as const } : undefined,
+                    },
+                ],
+            };
+
+            const fileName = `ventas_${level === "lines" ? "lineas_" : ""}${start_date}_${end_date}.${format}`;
+            res.setHeader("Content-Type", CONTENT_TYPES[format]);
+            res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+
+            const columns = level === "lines" ? LINE_EXPORT_COLUMNS : SALE_EXPORT_COLUMNS;
+            const writer: ExportWriter = format === "xlsx"
+                ? createXlsxWriter(res, columns, level === "lines" ? "Líneas" : "Ventas")
+                : createCsvWriter(res, columns);
+
+            let cursorId: any = undefined;
+            do {
+                const sales = await prisma.sale.findMany({
+                    where: whereClause,
+                    orderBy: [
+                        { created_at: 'asc' },
+                        { id: 'asc' },
+                    ],
+                    cursor: cursorId ? {
+                        id: cursorId
+                    } : undefined,
+                    skip: cursorId ? 1 : 0,
+                    take: EXPORT_BATCH_SIZE,
+                    select: exportSaleSelect,
+                });
+
+                for (const sale of sales) {
+                    for (const row of buildExportRows(sale, level, timeZone)) {
+                        await writer.writeRow(row);
+                    }
+                }
+
+                cursorId = sales.length === EXPORT_BATCH_SIZE ? sales[sales.length - 1].id : undefined;
+            } while (cursorId);
+
+            await writer.end();
+        } catch (error) {
+            // Si el archivo ya empezó a enviarse no se puede responder con JSON; se corta la descarga
+            if (res.headersSent) {
+                return res.destroy(error);
+            }
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
@@ -0,0 +1,351 @@
+import prisma from "../lib/prisma";
+import { v4 as uuidv4 } from "uuid";
+import { getBranchTimeZone, getSaleBranchId } from "../utils/branch";
+import { bufferToUuid, uuidToBuffer } from "../utils/common";
+import { refundGiftCardPayment, voidGiftCard } from "../utils/gift_card";
+import { allocateRefundPayments } from "../utils/payment";
+import { reverseSaleLoyalty } from "../utils/loyalty";
+import { assertBusinessDayOpen, getBusinessDate } from "../utils/report";
+import { getOpenShiftId } from "../utils/shift";
+import { resolveAuthorizer, roundMoney, SaleError } from "../utils/sale";
+
+export const SaleRefundController = {
+    async createSaleRefund(req: any, res: any) {
+        const { sale_id, reason, authorized_by, lines } = req.body;
+        try {
+            if (!reason || !String(reason).trim()) {
+                return res.status(400).json({ message: "El motivo de la devolución es obligatorio" });
+            }
+
+            const newRefund = await prisma.$transaction(async (tx) => {
+                // Bloquea la venta antes de leer lo ya devuelto; una devolución simultánea espera a que
+                // esta termine y después lee las cantidades actualizadas
+                await tx.sale.updateMany({
+                    where: {
+                        id: uuidToBuffer(sale_id),
+                        status: {
+                            in: ["completed", "partially_refunded"]
+                        }
+                    },
+                    data: {
+                        updated_at: new Date()
+                    }
+                });
+
+                const sale = await tx.sale.findUnique({
+                    where: {
+                        id: uuidToBuffer(sale_id)
+                    },
+                    select: {
+                        id: true,
+                        status: true,
+                        total: true,
+                        payment_method: true,
+                        prices_include_tax: true,
+                        branch_id: true,
+                        user_id: true,
+                        sale_payment: {
+                            select: {
+                                id: true,
+                                method: true,
+                                amount: true,
+                                gift_card_id: true,
+                            }
+                        },
+                        sale_refund: {
+                            select: {
+                                total: true,
+                                sale_refund_payment: {
+                                    select: {
+                                        sale_payment_id: true,
+                                        amount: true,
+                                    }
+                                }
+                            }
+                        },
+                        sale_detail: {
+                            select: {
+                                id: true,
+                                amount: true,
+                                subtotal: true,
+                                discount_amount: true,
+                                tax_amount: true,
+                                gift_card_id: true,
+                                sale_refund_detail: {
+                                    select: {
+                                        amount: true,
+                                    }
+                                }
+                            }
+                        }
+                    }
+                });
+
+                if (!sale) {
+                    throw new SaleError("Venta no encontrada", 404);
+                }
+                if (sale.status === "open") {
+                    throw new SaleError("La orden sigue abierta; no hay nada que devolver", 409);
+                }
+                if (sale.status === "voided" || sale.status === "refunded") {
+                    throw new SaleError("La venta ya fue cancelada o devuelta en su totalidad", 409);
+                }
+
+                const authorizer = await resolveAuthorizer(tx, authorized_by, req.user.id);
+
+                // La devolución cuenta en el día en que se hace
+                const branchId = await getSaleBranchId(tx, sale);
+                await assertBusinessDayOpen(tx, branchId, getBusinessDate(await getBranchTimeZone(tx, branchId)));
+
+                // Cantidad de cada línea que todavía puede devolverse
+                const remainingByDetail = new Map(sale.sale_detail.map((detail) => [
+                    Buffer.from(detail.id).toString("hex"),
+                    {
+                        detail,
+                        remaining: detail.amount - detail.sale_refund_detail.reduce((sum, refunded) => sum + refunded.amount, 0),
+                    }
+                ]));
+
+                // Si no se indican líneas se devuelve todo lo pendiente de la venta
+                const requestedLines = Array.isArray(lines) && lines.length > 0
+                    ? lines.map((line: any) => ({ key: uuidToBuffer(line.sale_detail_id).toString("hex"), amount: line.amount }))
+                    : Array.from(remainingByDetail.entries())
+                        .filter(([, item]) => item.remaining > 0)
+                        .map(([key, item]) => ({ key, amount: item.remaining }));
+
+                if (requestedLines.length === 0) {
+                    throw new SaleError("No hay líneas pendientes por devolver");
+                }
+
+                const refundLines = requestedLines.map((line: any) => {
+                    const item = remainingByDetail.get(line.key);
+                    if (!item) {
+                        throw new SaleError("El detalle de venta no pertenece a la venta", 404);
+                    }
+                    if (!Number.isInteger(line.amount) || line.amount <= 0 || line.amount > item.remaining) {
+                        throw new SaleError(`Cantidad a devolver inválida; quedan ${item.remaining} por devolver`);
+                    }
+                    item.remaining -= line.amount;
+
+                    // Se devuelve el importe neto cobrado, descontando la parte proporcional del descuento
+                    // y agregando el IVA cuando se cobró por encima del precio
+                    const chargedTotal = item.detail.subtotal - item.detail.discount_amount + (sale.prices_include_tax ? 0 : item.detail.tax_amount);
+                    return {
+                        sale_detail_id: item.detail.id,
+                        gift_card_id: item.detail.gift_card_id,
+                        // Al terminar de devolver la línea se revierte todo lo que queda de sus puntos
+                        loyalty_portion: item.remaining === 0 ? 1 : line.amount / item.detail.amount,
+                        amount: line.amount,
+                        subtotal: roundMoney(chargedTotal / item.detail.amount * line.amount),
+                    };
+                });
+
+                // La devolución que termina la venta regresa todo lo pendiente del total cobrado,
+                // incluidos los cargos por tipo de orden y los centavos de redondeo
+                const fullyRefunded = Array.from(remainingByDetail.values()).every((item) => item.remaining === 0);
+                const refundBufferId = uuidToBuffer(uuidv4());
+                const total = fullyRefunded
+                    ? roundMoney(sale.total - sale.sale_refund.reduce((sum, refund) => sum + refund.total, 0))
+                    : roundMoney(refundLines.reduce((sum: number, line: any) => sum + line.subtotal, 0));
+
+                await tx.sale_refund.create({
+                    data: {
+                        id: refundBufferId,
+                        created_at: new Date(),
+                        updated_at: new Date(),
+                        total: total,
+                        reason: String(reason).trim(),
+                        sale_id: sale.id,
+                        authorized_by: authorizer,
+                        // El reembolso sale de la caja del turno abierto al momento de la devolución
+                        shift_id: await getOpenShiftId(tx, branchId),
+                    }
+                });
+
+                // El importe se devuelve por las mismas formas de pago con que se cobró. Las ventas registradas
+                // antes de los pagos divididos se devuelven con el método del encabezado.
+                const previousRefundPayments = sale.sale_refund.flatMap((refund) => refund.sale_refund_payment);
+                const paymentSources = sale.sale_payment.length > 0
+                    ? sale.sale_payment.map((payment) => ({
+                        sale_payment_id: payment.id,
+                        method: payment.method,
+                        gift_card_id: payment.gift_card_id,
+                        amount: payment.amount,
+                        refunded: previousRefundPayments
+                            .filter((refundPayment) => refundPayment.sale_payment_id && Buffer.from(refundPayment.sale_payment_id).equals(Buffer.from(payment.id)))
+                            .reduce((sum, refundPayment) => sum + refundPayment.amount, 0),
+                    }))
+                    : [{
+                        sale_payment_id: null,
+                        method: sale.payment_method,
+                        gift_card_id: null,
+                        amount: sale.total,
+                        refunded: sale.sale_refund.reduce((sum, refund) => sum + refund.total, 0),
+                    }];
+                const refundPayments = allocateRefundPayments(paymentSources, total);
+
+                await tx.sale_refund_payment.createMany({
+                    data: refundPayments.map((payment) => ({
+                        id: uuidToBuffer(uuidv4()),
+                        created_at: new Date(),
+                        method: payment.method,
+                        amount: payment.amount,
+                        sale_refund_id: refundBufferId,
+                        sale_payment_id: payment.sale_payment_id,
+                        gift_card_id: payment.gift_card_id,
+                    }))
+                });
+
+                // Lo pagado con tarjeta de regalo regresa a su saldo
+                for (const payment of refundPayments) {
+                    if (payment.gift_card_id) {
+                        await refundGiftCardPayment(tx, payment.gift_card_id, payment.amount, sale.id, "Devolución");
+                    }
+                }
+
+                await tx.sale_refund_detail.createMany({
+                    data: refundLines.map((line: any) => ({
+                        id: uuidToBuffer(uuidv4()),
+                        created_at: new Date(),
+                        updated_at: new Date(),
+                        amount: line.amount,
+                        subtotal: line.subtotal,
+                        sale_refund_id: refundBufferId,
+                        sale_detail_id: line.sale_detail_id,
+                    }))
+                });
+
+                // Devolver una tarjeta de regalo la cancela; solo se puede si no se ha usado su saldo.
+                // Los puntos ganados o canjeados con la línea se revierten en proporción a lo devuelto.
+                for (const line of refundLines) {
+                    if (line.gift_card_id) {
+                        await voidGiftCard(tx, line.gift_card_id, sale.id, "Tarjeta devuelta");
+                    }
+                    await reverseSaleLoyalty(tx, sale.id, line.sale_detail_id, line.loyalty_portion);
+                }
+
+                await tx.sale.update({
+                    where: {
+                        id: sale.id
+                    },
+                    data: {
+                        status: fullyRefunded ? "refunded" : "partially_refunded",
+                        updated_at: new Date(),
+                    }
+                });
+
+                return tx.sale_refund.findUnique({
+                    where: {
+                        id: refundBufferId
+                    },
+                    select: {
+                        id: true,
+                        created_at: true,
+                        total: true,
+                        reason: true,
+                        sale_id: true,
+                        authorized_by: true,
+                        sale: {
+                            select: {
+                                status: true,
+                            }
+                        },
+                        sale_refund_payment: {
+                            select: {
+                                method: true,
+                                amount: true,
+                            }
+                        },
+                        sale_refund_detail: {
+                            select: {
+                                id: true,
+                                amount: true,
+                                subtotal: true,
+                                sale_detail_id: true,
+                            }
+                        }
+                    }
+                });
+            });
+
+            if (!newRefund) {
+                return res.status(400).json({ message: "Error al registrar devolución" });
+            }
+
+            const formattedRefund = {
+                ...newRefund,
+                id: bufferToUuid(Buffer.from(newRefund.id)),
+                sale_id: bufferToUuid(Buffer.from(newRefund.sale_id)),
+                authorized_by: bufferToUuid(Buffer.from(newRefund.authorized_by)),
+                sale_refund_detail: newRefund.sale_refund_detail.map((detail) => ({
+                    ...detail,
+                    id: bufferToUuid(Buffer.from(detail.id)),
+                    sale_detail_id: bufferToUuid(Buffer.from(detail.sale_detail_id)),
+                })),
+            };
+
+            res.status(200).json(formattedRefund);
+        } catch (error) {
+            if (error instanceof SaleError) {
+                return res.status(error.status).json({ message: error.message });
+            }
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+    async getSaleRefunds(req: any, res: any) {
+        const { id } = req.params;
+        try {
+            const refunds = await prisma.sale_refund.findMany({
+                where: {
+                    sale_id: uuidToBuffer(id)
+                },
+                orderBy: {
+                    created_at: 'asc'
+                },
+                select: {
+                    id: true,
+                    created_at: true,
+                    total: true,
+                    reason: true,
+                    sale_id: true,
+                    authorized_by: true,
+                    user: {
+                        select: {
+                            name: true,
+                        }
+                    },
+                    sale_refund_payment: {
+                        select: {
+                            method: true,
+                            amount: true,
+                        }
+                    },
+                    sale_refund_detail: {
+                        select: {
+                            id: true,
+                            amount: true,
+                            subtotal: true,
+                            sale_detail_id: true,
+                        }
+                    }
+                }
+            });
+
+            const formattedRefunds = refunds.map((refund) => ({
+                ...refund,
+                id: bufferToUuid(Buffer.from(refund.id)),
+                sale_id: bufferToUuid(Buffer.from(refund.sale_id)),
+                authorized_by: bufferToUuid(Buffer.from(refund.authorized_by)),
+                sale_refund_detail: refund.sale_refund_detail.map((detail) => ({
+                    ...detail,
+                    id: bufferToUuid(Buffer.from(detail.id)),
+                    sale_detail_id: bufferToUuid(Buffer.from(detail.sale_detail_id)),
+                })),
+            }));
+
+            res.status(200).json(formattedRefunds);
+        } catch (error) {
+            return res.status(500).json({ message: "Error de servidor: " + error });
+        }
+    },
+};
@@ -11,6 +11,19 @@ import ComboRoute from './routes/combo.router';
 import ComboDetailRoute from './routes/combo_detail.router';
 import SaleRoute from './routes/sale.router';
 import SaleDetailRoute from './routes/sale_detail.router';
+import SaleRefundRoute from './routes/sale_refund.router';
+import PaymentMethodRoute from './routes/payment_method.router';
+import CashShiftRoute from './routes/cash_shift.router';
+import ReportRoute from './routes/report.router';
+import DiscountRoute from './routes/discount.router';
+import KitchenRoute from './routes/kitchen.router';
+import OrderTypeSurchargeRoute from './routes/order_type_surcharge.router';
+import OpenOrderRoute from './routes/open_order.router';
+import SaleExportRoute from './routes/sale_export.router';
+import CustomerRoute from './routes/customer.router';
+import LoyaltyRoute from './routes/loyalty.router';
+import GiftCardRoute from './routes/gift_card.router';
+import ModifierRoute from './routes/modifier.router';
 import BranchRouter from './routes/branch.router';
 import UserBranchRouter from './routes/user_branch.router';
 import DashboardRouter from './routes/dashboard.router';
@@ -32,6 +45,19 @@ app.use("/api", ComboRoute);
 app.use("/api", ComboDetailRoute);
 app.use("/api", SaleRoute);
 app.use("/api", SaleDetailRoute);
+app.use("/api", SaleRefundRoute);
+app.use("/api", PaymentMethodRoute);
+app.use("/api", CashShiftRoute);
+app.use("/api", ReportRoute);
+app.use("/api", DiscountRoute);
+app.use("/api", KitchenRoute);
+app.use("/api", OrderTypeSurchargeRoute);
+app.use("/api", OpenOrderRoute);
+app.use("/api", SaleExportRoute);
+app.use("/api", CustomerRoute);
+app.use("/api", LoyaltyRoute);
+app.use("/api", GiftCardRoute);
+app.use("/api", ModifierRoute);
 app.use("/api", BranchRouter);
 app.use("/api", UserBranchRouter);
 app.use("/api/dashboard", DashboardRouter);
@@ -0,0 +1,118 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import prisma from "../lib/prisma";
+import { uuidToBuffer } from "../utils/common";
+
+// Serializa el cuerpo con las llaves ordenadas para que el mismo contenido
+// genere el mismo hash sin importar el orden en que el cliente envió los campos
+const canonicalize = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value)
+      .sort()
+      .reduce((result: any, key) => {
+        result[key] = canonicalize(value[key]);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+// Debe ir después de verifyToken: las claves se guardan por usuario y por endpoint.
+// Si la petición trae el encabezado Idempotency-Key, la primera respuesta se guarda y
+// los reintentos con la misma clave la reciben de nuevo sin volver a ejecutar el controlador.
+export const idempotency = async (req: any, res: any, next: any) => {
+  const key = req.headers["idempotency-key"];
+
+  if (!key) {
+    return next();
+  }
+  if (typeof key !== "string" || key.length > 255) {
+    return res.status(400).json({ message: "Idempotency-Key inválida" });
+  }
+
+  const userId = uuidToBuffer(req.user.id);
+  const endpoint = `${req.method} ${req.baseUrl}${req.path}`;
+  const requestHash = createHash("sha256").update(JSON.stringify(canonicalize(req.body ?? {}))).digest("hex");
+
+  let recordId: any;
+  try {
+    const record = await prisma.idempotency_key.create({
+      data: {
+        id: uuidToBuffer(uuidv4()),
+        created_at: new Date(),
+        updated_at: new Date(),
+        key: key,
+        endpoint: endpoint,
+        request_hash: requestHash,
+        user_id: userId,
+      },
+      select: {
+        id: true,
+      },
+    });
+    recordId = record.id;
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) {
+      return res.status(500).json({ message: "Error de servidor: " + error });
+    }
+
+    let existing;
+    try {
+      existing = await prisma.idempotency_key.findUnique({
+        where: {
+          user_id_endpoint_key: {
+            user_id: userId,
+            endpoint: endpoint,
+            key: key,
+          },
+        },
+      });
+    } catch (lookupError) {
+      return res.status(500).json({ message: "Error de servidor: " + lookupError });
+    }
+
+    if (!existing) {
+      return res.status(409).json({ message: "La solicitud con esta Idempotency-Key se está procesando, intente de nuevo" });
+    }
+    if (existing.request_hash !== requestHash) {
+      return res.status(422).json({ message: "La Idempotency-Key ya se usó con una solicitud distinta" });
+    }
+    if (existing.status_code === null) {
+      return res.status(409).json({ message: "La solicitud con esta Idempotency-Key se está procesando, intente de nuevo" });
+    }
+
+    res.setHeader("Idempotent-Replay", "true");
+    return res.status(existing.status_code).json(existing.response);
+  }
+
+  // Guarda la respuesta antes de enviarla. Los errores de servidor no se guardan
+  // y liberan la clave para que el cliente pueda reintentar.
+  const json = res.json.bind(res);
+  res.json = (body: any) => {
+    const store = res.statusCode >= 500
+      ? prisma.idempotency_key.delete({
+        where: {
+          id: recordId,
+        },
+      })
+      : prisma.idempotency_key.update({
+        where: {
+          id: recordId,
+        },
+        data: {
+          status_code: res.statusCode,
+          response: body ?? Prisma.JsonNull,
+          updated_at: new Date(),
+        },
+      });
+
+    store.catch(() => null).finally(() => json(body));
+    return res;
+  };
+
+  next();
+};
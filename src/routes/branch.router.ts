@@ -6,6 +6,8 @@ const BranchRouter = Router();
 
 BranchRouter.post('/branch/create', verifyToken, BranchController.createBranch);
 BranchRouter.get('/branch/all', verifyToken, BranchController.getAllBranches);
+BranchRouter.put('/branch/update', verifyToken, BranchController.updateBranch);
+BranchRouter.post('/branch/sales/backfill', verifyToken, BranchController.backfillSaleBranches);
 BranchRouter.get('/branch/:id', verifyToken, BranchController.updateBranchReferences);
 
 export default BranchRouter
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { CashShiftController } from "../controllers/cash_shift.controller";
+
+const CashShiftRoute = Router();
+
+CashShiftRoute.post("/shift/open", verifyToken, CashShiftController.openShift);
+CashShiftRoute.post("/shift/movement/create", verifyToken, CashShiftController.createMovement);
+CashShiftRoute.post("/shift/close", verifyToken, CashShiftController.closeShift);
+CashShiftRoute.get("/shift/current", verifyToken, CashShiftController.getCurrentShift);
+CashShiftRoute.get("/shift/:id", verifyToken, CashShiftController.getShift);
+
+export default CashShiftRoute;
\ No newline at end of file
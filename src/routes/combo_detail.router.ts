@@ -7,5 +7,7 @@ const ComboDetailRoute = Router();
 ComboDetailRoute.post("/combo/detail/create", verifyToken, ComboDetailController.createComboDetail);
 ComboDetailRoute.get("/combo/detail/all", verifyToken, ComboDetailController.getAllComboDetails);
 ComboDetailRoute.get("/combo/detail/:id", verifyToken, ComboDetailController.getAllComboDetail);
+ComboDetailRoute.post("/combo/detail/upcharge/create", verifyToken, ComboDetailController.setComboSlotUpcharge);
+ComboDetailRoute.delete("/combo/detail/upcharge/delete", verifyToken, ComboDetailController.deleteComboSlotUpcharge);
 
 export default ComboDetailRoute;
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { CustomerController } from "../controllers/customer.controller";
+
+const CustomerRoute = Router();
+
+CustomerRoute.post("/customer/create", verifyToken, CustomerController.createCustomer);
+CustomerRoute.get("/customers", verifyToken, CustomerController.getCustomers);
+CustomerRoute.get("/customer/search", verifyToken, CustomerController.searchByPhone);
+CustomerRoute.put("/customer/update", verifyToken, CustomerController.updateCustomer);
+CustomerRoute.delete("/customer/delete", verifyToken, CustomerController.deleteCustomer);
+CustomerRoute.get("/customer/:id/history", verifyToken, CustomerController.getCustomerHistory);
+
+export default CustomerRoute;
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { DiscountController } from "../controllers/discount.controller";
+
+const DiscountRoute = Router();
+
+DiscountRoute.post("/discount_reason/create", verifyToken, DiscountController.createDiscountReason);
+DiscountRoute.get("/discount_reasons", verifyToken, DiscountController.getDiscountReasons);
+DiscountRoute.put("/discount_reason/update", verifyToken, DiscountController.updateDiscountReason);
+DiscountRoute.post("/promo_code/create", verifyToken, DiscountController.createPromoCode);
+DiscountRoute.get("/promo_codes", verifyToken, DiscountController.getPromoCodes);
+DiscountRoute.put("/promo_code/update", verifyToken, DiscountController.updatePromoCode);
+DiscountRoute.post("/promo_code/validate", verifyToken, DiscountController.validatePromoCode);
+
+export default DiscountRoute;
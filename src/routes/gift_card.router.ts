@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { GiftCardController } from "../controllers/gift_card.controller";
+
+const GiftCardRoute = Router();
+
+GiftCardRoute.get("/gift_cards", verifyToken, GiftCardController.getGiftCards);
+GiftCardRoute.get("/gift_card/balance", verifyToken, GiftCardController.getBalance);
+GiftCardRoute.get("/gift_card/:id/transactions", verifyToken, GiftCardController.getTransactions);
+GiftCardRoute.put("/gift_card/update", verifyToken, GiftCardController.updateGiftCard);
+
+export default GiftCardRoute;
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { KitchenController } from "../controllers/kitchen.controller";
+
+const KitchenRoute = Router();
+
+KitchenRoute.get("/kitchen/queue", verifyToken, KitchenController.getKitchenQueue);
+KitchenRoute.put("/kitchen/line/status", verifyToken, KitchenController.updateLineStatus);
+KitchenRoute.put("/kitchen/order/status", verifyToken, KitchenController.updateOrderStatus);
+KitchenRoute.get("/kitchen/times", verifyToken, KitchenController.getKitchenTimes);
+
+export default KitchenRoute;
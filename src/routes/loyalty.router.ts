@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { LoyaltyController } from "../controllers/loyalty.controller";
+
+const LoyaltyRoute = Router();
+
+LoyaltyRoute.post("/loyalty/program/create", verifyToken, LoyaltyController.createProgram);
+LoyaltyRoute.get("/loyalty/programs", verifyToken, LoyaltyController.getPrograms);
+LoyaltyRoute.put("/loyalty/program/update", verifyToken, LoyaltyController.updateProgram);
+LoyaltyRoute.post("/loyalty/rule/create", verifyToken, LoyaltyController.createRule);
+LoyaltyRoute.delete("/loyalty/rule/delete", verifyToken, LoyaltyController.deleteRule);
+LoyaltyRoute.post("/loyalty/reward/create", verifyToken, LoyaltyController.createReward);
+LoyaltyRoute.put("/loyalty/reward/update", verifyToken, LoyaltyController.updateReward);
+LoyaltyRoute.get("/loyalty/customer/:id", verifyToken, LoyaltyController.getCustomerLoyalty);
+
+export default LoyaltyRoute;
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { ModifierController } from "../controllers/modifier.controller";
+
+const ModifierRoute = Router();
+
+ModifierRoute.post("/modifier_group/create", verifyToken, ModifierController.createModifierGroup);
+ModifierRoute.get("/modifier_groups", verifyToken, ModifierController.getModifierGroups);
+ModifierRoute.put("/modifier_group/update", verifyToken, ModifierController.updateModifierGroup);
+ModifierRoute.post("/modifier/create", verifyToken, ModifierController.createModifier);
+ModifierRoute.put("/modifier/update", verifyToken, ModifierController.updateModifier);
+ModifierRoute.post("/product/modifier_group/attach", verifyToken, ModifierController.attachModifierGroup);
+ModifierRoute.delete("/product/modifier_group/detach", verifyToken, ModifierController.detachModifierGroup);
+ModifierRoute.get("/product/:id/modifiers", verifyToken, ModifierController.getProductModifiers);
+
+export default ModifierRoute;
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { OpenOrderController } from "../controllers/open_order.controller";
+
+const OpenOrderRoute = Router();
+
+OpenOrderRoute.post("/sale/open/create", verifyToken, OpenOrderController.createOpenOrder);
+OpenOrderRoute.get("/sale/open/all", verifyToken, OpenOrderController.getOpenOrders);
+OpenOrderRoute.post("/sale/open/line/add", verifyToken, OpenOrderController.addLines);
+OpenOrderRoute.post("/sale/open/line/remove", verifyToken, OpenOrderController.removeLine);
+OpenOrderRoute.post("/sale/open/park", verifyToken, OpenOrderController.parkOrder);
+OpenOrderRoute.post("/sale/open/resume", verifyToken, OpenOrderController.resumeOrder);
+OpenOrderRoute.post("/sale/open/close", verifyToken, OpenOrderController.closeOrder);
+
+export default OpenOrderRoute;
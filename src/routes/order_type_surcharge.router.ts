@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { OrderTypeSurchargeController } from "../controllers/order_type_surcharge.controller";
+
+const OrderTypeSurchargeRoute = Router();
+
+OrderTypeSurchargeRoute.post("/order_type_surcharge/create", verifyToken, OrderTypeSurchargeController.createSurcharge);
+OrderTypeSurchargeRoute.get("/order_type_surcharges", verifyToken, OrderTypeSurchargeController.getSurcharges);
+OrderTypeSurchargeRoute.put("/order_type_surcharge/update", verifyToken, OrderTypeSurchargeController.updateSurcharge);
+
+export default OrderTypeSurchargeRoute;
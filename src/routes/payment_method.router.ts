@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { PaymentMethodController } from "../controllers/payment_method.controller";
+
+const PaymentMethodRoute = Router();
+
+PaymentMethodRoute.post("/payment_method/create", verifyToken, PaymentMethodController.createPaymentMethod);
+PaymentMethodRoute.get("/payment_methods", verifyToken, PaymentMethodController.getPaymentMethods);
+PaymentMethodRoute.put("/payment_method/update", verifyToken, PaymentMethodController.updatePaymentMethod);
+
+export default PaymentMethodRoute;
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { ReportController } from "../controllers/report.controller";
+
+const ReportRoute = Router();
+
+ReportRoute.get("/report/x", verifyToken, ReportController.getXReport);
+ReportRoute.post("/report/z/create", verifyToken, ReportController.createZReport);
+ReportRoute.get("/report/z/all", verifyToken, ReportController.getZReports);
+ReportRoute.get("/report/z/:id", verifyToken, ReportController.getZReport);
+ReportRoute.get("/report/z/:id/text", verifyToken, ReportController.getZReportText);
+
+export default ReportRoute;
\ No newline at end of file
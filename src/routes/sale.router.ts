@@ -1,12 +1,17 @@
 import { Router } from "express";
 import { verifyToken } from "../middlewares/AuthToken";
+import { idempotency } from "../middlewares/Idempotency";
 import { SaleController } from "../controllers/sale.controller";
 
 const SaleRoute = Router();
 
-SaleRoute.post("/sale/create", verifyToken, SaleController.createSale);
+SaleRoute.post("/sale/create", verifyToken, idempotency, SaleController.createSale);
+SaleRoute.post("/sale/order/create", verifyToken, idempotency, SaleController.createOrder);
+SaleRoute.post("/sale/sync", verifyToken, idempotency, SaleController.syncSales);
 SaleRoute.get("/sale/all", verifyToken, SaleController.getAllSales);
-SaleRoute.delete("/sale/delete", verifyToken, SaleController.deleteSale);
+SaleRoute.put("/sale/update", verifyToken, SaleController.updateSale);
+SaleRoute.post("/sale/void", verifyToken, SaleController.voidSale);
+SaleRoute.get("/sale/:id/receipt", verifyToken, SaleController.getSaleReceipt);
 SaleRoute.get("/sales/daily", verifyToken, SaleController.getSalesByDateAndUser);
 
 export default SaleRoute;
\ No newline at end of file
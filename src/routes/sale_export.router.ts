@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { SaleExportController } from "../controllers/sale_export.controller";
+
+const SaleExportRoute = Router();
+
+SaleExportRoute.get("/sale/export", verifyToken, SaleExportController.exportSales);
+
+export default SaleExportRoute;
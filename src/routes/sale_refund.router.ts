@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { verifyToken } from "../middlewares/AuthToken";
+import { SaleRefundController } from "../controllers/sale_refund.controller";
+
+const SaleRefundRoute = Router();
+
+SaleRefundRoute.post("/sale/refund/create", verifyToken, SaleRefundController.createSaleRefund);
+SaleRefundRoute.get("/sale/refund/:id", verifyToken, SaleRefundController.getSaleRefunds);
+
+export default SaleRefundRoute;
\ No newline at end of file
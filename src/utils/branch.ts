@@ -0,0 +1,61 @@
+import { Prisma } from "@prisma/client";
+import { bufferToUuid, uuidToBuffer } from "./common";
+import { DEFAULT_TIMEZONE } from "./timezone";
+
+// Obtiene la sucursal a la que está asignado un usuario (la primera si tiene varias)
+export async function getUserBranchId(tx: Prisma.TransactionClient, userId: string): Promise<any> {
+    const userBranch = await tx.user_branch.findFirst({
+        where: {
+            user_id: uuidToBuffer(userId)
+        },
+        select: {
+            branch_id: true
+        }
+    });
+
+    return userBranch ? userBranch.branch_id : null;
+}
+
+// Sucursal de una venta. Las ventas registradas antes de guardar la sucursal en la venta
+// y que no se han migrado la toman del usuario que las registró.
+export async function getSaleBranchId(tx: Prisma.TransactionClient, sale: { branch_id: any; user_id: any }): Promise<any> {
+    if (sale.branch_id) return sale.branch_id;
+    return getUserBranchId(tx, bufferToUuid(Buffer.from(sale.user_id)));
+}
+
+// Zona horaria de la sucursal; define su día de negocio
+export async function getBranchTimeZone(tx: Prisma.TransactionClient, branchId: any): Promise<string> {
+    const branch = branchId ? await tx.branch.findUnique({
+        where: {
+            id: branchId
+        },
+        select: {
+            timezone: true
+        }
+    }) : null;
+
+    return branch?.timezone || DEFAULT_TIMEZONE;
+}
+
+// Tasa de IVA predeterminada cuando la venta no está ligada a una sucursal
+export const DEFAULT_TAX_RATE = 0.16;
+
+export interface BranchTaxConfig {
+    tax_rate: number;
+    prices_include_tax: boolean;
+}
+
+// Configuración de impuestos de la sucursal: tasa de IVA y si los precios del catálogo ya lo incluyen
+export async function getBranchTaxConfig(tx: Prisma.TransactionClient, branchId: any): Promise<BranchTaxConfig> {
+    const branch = branchId ? await tx.branch.findUnique({
+        where: {
+            id: branchId
+        },
+        select: {
+            tax_rate: true,
+            prices_include_tax: true
+        }
+    }) : null;
+
+    return branch || { tax_rate: DEFAULT_TAX_RATE, prices_include_tax: true };
+}
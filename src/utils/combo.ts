@@ -0,0 +1,49 @@
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "./common";
+import { ResolvedSaleLine } from "./sale";
+
+// Guarda los productos elegidos dentro de cada combo como registros hijos del detalle de venta;
+// el inventario descuenta los ingredientes de estos productos en lugar de buscarlos en la nota.
+export async function createSaleLineComboItems(tx: Prisma.TransactionClient, lines: Pick<ResolvedSaleLine, "combo_items">[], saleDetailIds: any[]) {
+    const rows = lines.flatMap((line, index) => line.combo_items.map((item) => ({
+        id: uuidToBuffer(uuidv4()),
+        created_at: new Date(),
+        amount: item.amount,
+        upcharge: item.upcharge,
+        sale_detail_id: saleDetailIds[index],
+        combo_detail_id: item.combo_detail_id,
+        product_id: item.product_id,
+    })));
+
+    if (rows.length === 0) return;
+    await tx.sale_detail_combo_item.createMany({
+        data: rows
+    });
+}
+
+// Selección de los productos del combo de una línea para las respuestas de ventas y órdenes
+export const saleDetailComboItemSelect = {
+    select: {
+        combo_detail_id: true,
+        product_id: true,
+        amount: true,
+        upcharge: true,
+        product: {
+            select: {
+                name: true
+            }
+        }
+    },
+    orderBy: {
+        created_at: 'asc' as const
+    }
+};
+
+export const formatSaleDetailComboItems = (items: any[]) => items.map((item) => ({
+    combo_detail_id: bufferToUuid(Buffer.from(item.combo_detail_id)),
+    product_id: bufferToUuid(Buffer.from(item.product_id)),
+    name: item.product.name,
+    amount: item.amount,
+    upcharge: item.upcharge,
+}));
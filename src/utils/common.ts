@@ -1,3 +1,5 @@
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export function uuidToBuffer(uuid: string): any {
   if (!uuid || typeof uuid !== 'string') {
     throw new Error(`Invalid UUID provided: ${uuid}`);
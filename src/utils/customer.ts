@@ -0,0 +1,55 @@
+import { Prisma } from "@prisma/client";
+import { UUID_PATTERN, uuidToBuffer } from "./common";
+import { OrderInfoInput } from "./order";
+import { SaleError } from "./sale";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Los teléfonos se guardan solo con dígitos para que la búsqueda en caja no dependa del formato capturado
+export function normalizePhone(phone: any): string {
+    return String(phone ?? "").replace(/\D/g, "");
+}
+
+export function isValidEmail(email: any): boolean {
+    return typeof email === "string" && EMAIL_PATTERN.test(email.trim());
+}
+
+// Valida el cliente que se liga a una venta: debe existir, estar activo y ser de la sucursal de la venta
+export async function resolveSaleCustomer(tx: Prisma.TransactionClient, customerId: any, branchId: any) {
+    if (!customerId) return null;
+    if (typeof customerId !== "string" || !UUID_PATTERN.test(customerId)) {
+        throw new SaleError("Id de cliente inválido");
+    }
+
+    const customer = await tx.customer.findUnique({
+        where: {
+            id: uuidToBuffer(customerId)
+        },
+        select: {
+            id: true,
+            name: true,
+            phone: true,
+            is_active: true,
+            branch_id: true,
+        }
+    });
+
+    if (!customer || !customer.is_active) {
+        throw new SaleError("Cliente no encontrado", 404);
+    }
+    if (branchId && !Buffer.from(customer.branch_id).equals(Buffer.from(branchId))) {
+        throw new SaleError("El cliente no pertenece a la sucursal de la venta");
+    }
+
+    return customer;
+}
+
+// Completa el nombre y teléfono de la orden con los del cliente cuando no se capturaron
+export function withCustomerContact<T extends OrderInfoInput>(input: T, customer: { name: string; phone: string } | null): T {
+    if (!customer) return input;
+    return {
+        ...input,
+        customer_name: input.customer_name || customer.name,
+        customer_phone: input.customer_phone || customer.phone,
+    };
+}
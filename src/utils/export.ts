@@ -0,0 +1,110 @@
+import { once } from "events";
+import ExcelJS from "exceljs";
+
+export type ExportFormat = "csv" | "xlsx";
+export type ExportLevel = "sales" | "lines";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx"];
+export const EXPORT_LEVELS: ExportLevel[] = ["sales", "lines"];
+
+// Ventas leídas por consulta; el archivo se escribe por lotes para no cargar todo el rango en memoria
+export const EXPORT_BATCH_SIZE = 500;
+
+export interface ExportColumn {
+    header: string;
+    key: string;
+    width: number;
+}
+
+export const SALE_EXPORT_COLUMNS: ExportColumn[] = [
+    { header: "Ticket", key: "ticket_number", width: 10 },
+    { header: "Fecha", key: "date", width: 20 },
+    { header: "Cajero", key: "cashier", width: 20 },
+    { header: "Tipo de orden", key: "order_type", width: 14 },
+    { header: "Forma de pago", key: "payment_method", width: 16 },
+    { header: "Estado", key: "status", width: 18 },
+    { header: "Productos", key: "items", width: 50 },
+    { header: "Cantidad", key: "quantity", width: 10 },
+    { header: "Subtotal", key: "subtotal", width: 12 },
+    { header: "Descuento", key: "discount", width: 12 },
+    { header: "Cargos", key: "surcharge", width: 12 },
+    { header: "IVA", key: "tax", width: 12 },
+    { header: "Total", key: "total", width: 12 },
+];
+
+export const LINE_EXPORT_COLUMNS: ExportColumn[] = [
+    { header: "Ticket", key: "ticket_number", width: 10 },
+    { header: "Fecha", key: "date", width: 20 },
+    { header: "Cajero", key: "cashier", width: 20 },
+    { header: "Forma de pago", key: "payment_method", width: 16 },
+    { header: "Estado", key: "status", width: 18 },
+    { header: "Producto/Combo", key: "name", width: 30 },
+    { header: "Tipo", key: "type", width: 10 },
+    { header: "Cantidad", key: "quantity", width: 10 },
+    { header: "Precio unitario", key: "unit_price", width: 14 },
+    { header: "Subtotal", key: "subtotal", width: 12 },
+    { header: "Descuento", key: "discount", width: 12 },
+    { header: "IVA", key: "tax", width: 12 },
+    { header: "Nota", key: "note", width: 40 },
+];
+
+export interface ExportWriter {
+    writeRow(row: Record<string, any>): Promise<void>;
+    end(): Promise<void>;
+}
+
+const escapeCsv = (value: any) => {
+    if (value === null || value === undefined) return "";
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV en UTF-8 con BOM para que Excel respete los acentos. Respeta la contrapresión del stream.
+export function createCsvWriter(stream: NodeJS.WritableStream, columns: ExportColumn[]): ExportWriter {
+    const write = async (text: string) => {
+        if (!stream.write(text)) {
+            await once(stream as any, "drain");
+        }
+    };
+
+    const header = "\uFEFF" + columns.map((column) => escapeCsv(column.header)).join(",") + "\r\n";
+    let started = false;
+    const start = async () => {
+        if (!started) {
+            started = true;
+            await write(header);
+        }
+    };
+
+    return {
+        async writeRow(row) {
+            await start();
+            await write(columns.map((column) => escapeCsv(row[column.key])).join(",") + "\r\n");
+        },
+        async end() {
+            await start();
+            stream.end();
+        },
+    };
+}
+
+// XLSX escrito en modo streaming: cada fila se confirma y se libera al agregarse
+export function createXlsxWriter(stream: NodeJS.WritableStream, columns: ExportColumn[], sheetName: string): ExportWriter {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+        stream: stream as any,
+        useStyles: false,
+        useSharedStrings: false,
+    });
+    const worksheet = workbook.addWorksheet(sheetName);
+    worksheet.columns = columns.map((column) => ({ header: column.header, key: column.key, width: column.width }));
+
+    return {
+        async writeRow(row) {
+            worksheet.addRow(row).commit();
+        },
+        async end() {
+            worksheet.commit();
+            await workbook.commit();
+        },
+    };
+}
@@ -0,0 +1,271 @@
+import { gift_card_transaction_type, Prisma } from "@prisma/client";
+import { randomInt } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { uuidToBuffer } from "./common";
+import { GIFT_CARD_PAYMENT_METHOD, ResolvedSalePayment } from "./payment";
+import { ResolvedSaleLine, roundMoney, SaleError } from "./sale";
+
+// Las tarjetas de regalo son saldo prepagado: al venderse se registran como pasivo (gift_card_total de la venta)
+// y no como venta de producto; el ingreso se reconoce cuando el saldo se usa para pagar otra venta.
+// Cada cambio de saldo queda en gift_card_transaction con el saldo resultante.
+
+// Sin caracteres que se confunden al dictar o capturar el código (0/O, 1/I/L)
+const GIFT_CARD_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const GIFT_CARD_CODE_LENGTH = 16;
+const GIFT_CARD_CODE_ATTEMPTS = 5;
+
+// Los códigos se guardan en mayúsculas y sin separadores; se aceptan con espacios o guiones
+export function normalizeGiftCardCode(code: any): string {
+    return String(code ?? "").toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+async function generateGiftCardCode(tx: Prisma.TransactionClient): Promise<string> {
+    for (let attempt = 0; attempt < GIFT_CARD_CODE_ATTEMPTS; attempt++) {
+        let code = "";
+        for (let i = 0; i < GIFT_CARD_CODE_LENGTH; i++) {
+            code += GIFT_CARD_CODE_ALPHABET[randomInt(GIFT_CARD_CODE_ALPHABET.length)];
+        }
+
+        const existingCard = await tx.gift_card.findUnique({
+            where: {
+                code: code
+            },
+            select: {
+                id: true
+            }
+        });
+        if (!existingCard) return code;
+    }
+    throw new SaleError("No se pudo generar un código de tarjeta de regalo único", 500);
+}
+
+async function recordGiftCardTransaction(tx: Prisma.TransactionClient, data: { type: gift_card_transaction_type; amount: number; balance_after: number; gift_card_id: any; sale_id?: any; note?: string }) {
+    await tx.gift_card_transaction.create({
+        data: {
+            id: uuidToBuffer(uuidv4()),
+            created_at: new Date(),
+            type: data.type,
+            amount: roundMoney(data.amount),
+            balance_after: roundMoney(data.balance_after),
+            note: data.note || null,
+            gift_card_id: data.gift_card_id,
+            sale_id: data.sale_id || null,
+        }
+    });
+}
+
+// Emite una tarjeta por cada línea de tarjeta de regalo de la venta y devuelve las líneas ligadas a su tarjeta
+export async function issueSaleGiftCards(tx: Prisma.TransactionClient, lines: ResolvedSaleLine[], sale: { id: any; branch_id: any; customer_id: any }): Promise<ResolvedSaleLine[]> {
+    const issuedLines: ResolvedSaleLine[] = [];
+    for (const line of lines) {
+        if (!line.is_gift_card) {
+            issuedLines.push(line);
+            continue;
+        }
+
+        const giftCardId = uuidToBuffer(uuidv4());
+        const code = await generateGiftCardCode(tx);
+        await tx.gift_card.create({
+            data: {
+                id: giftCardId,
+                created_at: new Date(),
+                updated_at: new Date(),
+                code: code,
+                initial_balance: line.subtotal,
+                balance: line.subtotal,
+                is_active: true,
+                branch_id: sale.branch_id,
+                customer_id: sale.customer_id,
+            }
+        });
+
+        await recordGiftCardTransaction(tx, {
+            type: "issue",
+            amount: line.subtotal,
+            balance_after: line.subtotal,
+            gift_card_id: giftCardId,
+            sale_id: sale.id,
+        });
+
+        issuedLines.push({ ...line, gift_card_id: giftCardId, note: line.note || `Tarjeta de regalo ${code}` });
+    }
+    return issuedLines;
+}
+
+// Descuenta del saldo de las tarjetas los pagos hechos con tarjeta de regalo y devuelve los pagos
+// ligados a su tarjeta. La tarjeta debe estar activa, ser de la sucursal de la venta y tener saldo suficiente.
+export async function chargeGiftCardPayments(tx: Prisma.TransactionClient, payments: ResolvedSalePayment[], sale: { id: any; branch_id: any }): Promise<(ResolvedSalePayment & { gift_card_id: any })[]> {
+    const chargedPayments = [];
+    for (const payment of payments) {
+        if (payment.method !== GIFT_CARD_PAYMENT_METHOD.code) {
+            chargedPayments.push({ ...payment, gift_card_id: null });
+            continue;
+        }
+
+        const card = await tx.gift_card.findUnique({
+            where: {
+                code: payment.gift_card_code
+            },
+            select: {
+                id: true,
+                is_active: true,
+                branch_id: true,
+            }
+        });
+
+        if (!card) {
+            throw new SaleError("Tarjeta de regalo no encontrada", 404);
+        }
+        if (!card.is_active) {
+            throw new SaleError("La tarjeta de regalo no está activa");
+        }
+        if (sale.branch_id && !Buffer.from(card.branch_id).equals(Buffer.from(sale.branch_id))) {
+            throw new SaleError("La tarjeta de regalo no pertenece a la sucursal de la venta");
+        }
+
+        // El decremento condicionado evita que dos ventas simultáneas dejen el saldo negativo
+        const charge = await tx.gift_card.updateMany({
+            where: {
+                id: card.id,
+                balance: {
+                    gte: payment.amount
+                }
+            },
+            data: {
+                balance: {
+                    decrement: payment.amount
+                },
+                updated_at: new Date()
+            }
+        });
+
+        if (charge.count === 0) {
+            throw new SaleError("Saldo insuficiente en la tarjeta de regalo", 409);
+        }
+
+        const { balance } = await tx.gift_card.findUnique({
+            where: {
+                id: card.id
+            },
+            select: {
+                balance: true
+            }
+        });
+
+        await recordGiftCardTransaction(tx, {
+            type: "redeem",
+            amount: -payment.amount,
+            balance_after: balance,
+            gift_card_id: card.id,
+            sale_id: sale.id,
+        });
+
+        chargedPayments.push({ ...payment, gift_card_id: card.id });
+    }
+    return chargedPayments;
+}
+
+// Cancela una tarjeta emitida en una venta que se cancela o se devuelve. Si ya se usó parte
+// del saldo no se puede cancelar, porque ese saldo ya se entregó como producto.
+export async function voidGiftCard(tx: Prisma.TransactionClient, giftCardId: any, saleId: any, note: string) {
+    const card = await tx.gift_card.findUnique({
+        where: {
+            id: giftCardId
+        },
+        select: {
+            code: true,
+            balance: true,
+            initial_balance: true,
+            is_active: true,
+        }
+    });
+
+    if (!card.is_active && card.balance === 0) return;
+    if (card.balance !== card.initial_balance) {
+        throw new SaleError(`La tarjeta de regalo ${card.code} ya se usó; no se puede cancelar`, 409);
+    }
+
+    await tx.gift_card.update({
+        where: {
+            id: giftCardId
+        },
+        data: {
+            balance: 0,
+            is_active: false,
+            updated_at: new Date()
+        }
+    });
+
+    await recordGiftCardTransaction(tx, {
+        type: "void",
+        amount: -card.balance,
+        balance_after: 0,
+        gift_card_id: giftCardId,
+        sale_id: saleId,
+        note: note,
+    });
+}
+
+// Abona a la tarjeta lo que se le había cobrado en una venta que se cancela o se devuelve
+export async function refundGiftCardPayment(tx: Prisma.TransactionClient, giftCardId: any, amount: number, saleId: any, note: string) {
+    const card = await tx.gift_card.update({
+        where: {
+            id: giftCardId
+        },
+        data: {
+            balance: {
+                increment: amount
+            },
+            updated_at: new Date()
+        },
+        select: {
+            balance: true
+        }
+    });
+
+    await recordGiftCardTransaction(tx, {
+        type: "refund",
+        amount: amount,
+        balance_after: card.balance,
+        gift_card_id: giftCardId,
+        sale_id: saleId,
+        note: note,
+    });
+}
+
+// Al cancelar una venta se devuelve a las tarjetas lo que se pagó con ellas y se cancelan las tarjetas emitidas
+export async function reverseSaleGiftCards(tx: Prisma.TransactionClient, saleId: any) {
+    const [payments, issuedLines] = await Promise.all([
+        tx.sale_payment.findMany({
+            where: {
+                sale_id: saleId,
+                gift_card_id: {
+                    not: null
+                }
+            },
+            select: {
+                amount: true,
+                gift_card_id: true,
+            }
+        }),
+        tx.sale_detail.findMany({
+            where: {
+                sale_id: saleId,
+                gift_card_id: {
+                    not: null
+                }
+            },
+            select: {
+                gift_card_id: true,
+            }
+        }),
+    ]);
+
+    for (const line of issuedLines) {
+        await voidGiftCard(tx, line.gift_card_id, saleId, "Venta cancelada");
+    }
+
+    for (const payment of payments) {
+        await refundGiftCardPayment(tx, payment.gift_card_id, payment.amount, saleId, "Venta cancelada");
+    }
+}
@@ -0,0 +1,40 @@
+import { kitchen_status } from "@prisma/client";
+import { SaleError } from "./sale";
+
+// Horas tras las cuales una orden que sigue en la cola de cocina se marca como atrasada para revisarla
+export const KITCHEN_STALE_HOURS = 12;
+
+// Orden de los estados de preparación; una línea solo puede avanzar
+export const KITCHEN_STATUSES: kitchen_status[] = ["pending", "preparing", "ready", "delivered"];
+
+const KITCHEN_TIMESTAMPS: Partial<Record<kitchen_status, "preparing_at" | "ready_at" | "delivered_at">> = {
+    preparing: "preparing_at",
+    ready: "ready_at",
+    delivered: "delivered_at",
+};
+
+// Datos para mover una línea a un nuevo estado. Si se salta algún estado intermedio
+// se registra con la misma hora para que los tiempos de preparación sigan siendo medibles.
+export function getKitchenTransition(current: kitchen_status, next: kitchen_status, now: Date = new Date()) {
+    const currentIndex = KITCHEN_STATUSES.indexOf(current);
+    const nextIndex = KITCHEN_STATUSES.indexOf(next);
+
+    if (nextIndex === -1) {
+        throw new SaleError("Estado inválido. Use pending, preparing, ready o delivered");
+    }
+    if (nextIndex <= currentIndex) {
+        throw new SaleError(`La línea ya está en estado ${current} y no puede regresar a ${next}`, 409);
+    }
+
+    const data: any = { kitchen_status: next, updated_at: now };
+    KITCHEN_STATUSES.slice(currentIndex + 1, nextIndex + 1).forEach((status) => {
+        data[KITCHEN_TIMESTAMPS[status]] = now;
+    });
+    return data;
+}
+
+// Segundos entre dos marcas de tiempo, o null si alguna falta
+export function secondsBetween(from: Date | null, to: Date | null): number | null {
+    if (!from || !to) return null;
+    return Math.round((to.getTime() - from.getTime()) / 1000);
+}
@@ -0,0 +1,341 @@
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { uuidToBuffer } from "./common";
+import { getSaleBranchId } from "./branch";
+import { SaleError } from "./sale";
+
+// En el historial de puntos cada movimiento guarda su saldo pendiente en remaining:
+// - earn y reversal positivos: puntos aún disponibles; se consumen del más antiguo al más reciente.
+// - redeem: puntos canjeados que siguen aplicados; vuelve a cero si el canje se revierte.
+// El saldo del cliente es la suma de remaining de los movimientos con puntos positivos.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Programa de lealtad activo de la sucursal (solo puede haber uno)
+export async function getActiveLoyaltyProgram(tx: Prisma.TransactionClient, branchId: any) {
+    if (!branchId) return null;
+
+    return tx.loyalty_program.findFirst({
+        where: {
+            branch_id: branchId,
+            is_active: true
+        },
+        select: {
+            id: true,
+            name: true,
+            expiry_days: true,
+        }
+    });
+}
+
+function getExpiryDate(expiryDays: number | null, from: Date): Date | null {
+    return expiryDays ? new Date(from.getTime() + expiryDays * DAY_MS) : null;
+}
+
+// Vence los puntos cuya fecha ya pasó y deja el vencimiento registrado en el historial
+export async function expireLoyaltyPoints(tx: Prisma.TransactionClient, customerId: any, programId: any, now: Date = new Date()) {
+    const expiredEntries = await tx.loyalty_ledger.findMany({
+        where: {
+            customer_id: customerId,
+            program_id: programId,
+            points: {
+                gt: 0
+            },
+            remaining: {
+                gt: 0
+            },
+            expires_at: {
+                lte: now
+            }
+        },
+        select: {
+            id: true,
+            remaining: true,
+            expires_at: true,
+        }
+    });
+
+    for (const entry of expiredEntries) {
+        await tx.loyalty_ledger.update({
+            where: {
+                id: entry.id
+            },
+            data: {
+                remaining: 0
+            }
+        });
+
+        await tx.loyalty_ledger.create({
+            data: {
+                id: uuidToBuffer(uuidv4()),
+                created_at: now,
+                type: "expire",
+                points: -entry.remaining,
+                note: `Puntos vencidos el ${entry.expires_at.toISOString().slice(0, 10)}`,
+                customer_id: customerId,
+                program_id: programId,
+            }
+        });
+    }
+}
+
+export async function getLoyaltyBalance(tx: Prisma.TransactionClient, customerId: any, programId: any): Promise<number> {
+    const balance = await tx.loyalty_ledger.aggregate({
+        where: {
+            customer_id: customerId,
+            program_id: programId,
+            points: {
+                gt: 0
+            }
+        },
+        _sum: {
+            remaining: true
+        }
+    });
+
+    return balance._sum.remaining || 0;
+}
+
+// Descuenta puntos de los movimientos más antiguos primero
+async function consumeLoyaltyPoints(tx: Prisma.TransactionClient, customerId: any, programId: any, points: number) {
+    const entries = await tx.loyalty_ledger.findMany({
+        where: {
+            customer_id: customerId,
+            program_id: programId,
+            points: {
+                gt: 0
+            },
+            remaining: {
+                gt: 0
+            }
+        },
+        orderBy: [
+            { created_at: 'asc' },
+            { id: 'asc' },
+        ],
+        select: {
+            id: true,
+            remaining: true,
+        }
+    });
+
+    const available = entries.reduce((sum, entry) => sum + entry.remaining, 0);
+    if (available < points) {
+        throw new SaleError(`Puntos insuficientes: el cliente tiene ${available} y se requieren ${points}`, 409);
+    }
+
+    let pending = points;
+    for (const entry of entries) {
+        if (pending === 0) break;
+        const used = Math.min(entry.remaining, pending);
+        // El decremento condicionado evita que dos ventas simultáneas canjeen los mismos puntos
+        const consumed = await tx.loyalty_ledger.updateMany({
+            where: {
+                id: entry.id,
+                remaining: {
+                    gte: used
+                }
+            },
+            data: {
+                remaining: {
+                    decrement: used
+                }
+            }
+        });
+        if (consumed.count === 0) {
+            throw new SaleError("Los puntos del cliente se usaron en otra venta; intente de nuevo", 409);
+        }
+        pending -= used;
+    }
+}
+
+// Aplica el programa de lealtad a una venta (o solo a las líneas indicadas): canjea las recompensas
+// y acumula los puntos de las líneas que califican según las reglas por producto o por tipo de producto.
+// La regla del producto tiene prioridad sobre la de su tipo. Las ventas sin cliente no acumulan puntos.
+export async function applySaleLoyalty(tx: Prisma.TransactionClient, saleId: any, saleDetailIds?: any[]) {
+    const sale = await tx.sale.findUnique({
+        where: {
+            id: saleId
+        },
+        select: {
+            created_at: true,
+            customer_id: true,
+            branch_id: true,
+            user_id: true,
+        }
+    });
+
+    const lines = await tx.sale_detail.findMany({
+        where: {
+            sale_id: saleId,
+            id: saleDetailIds ? {
+                in: saleDetailIds
+            } : undefined
+        },
+        select: {
+            id: true,
+            amount: true,
+            product_id: true,
+            loyalty_reward_id: true,
+            loyalty_reward: {
+                select: {
+                    name: true,
+                    points_cost: true,
+                    program_id: true,
+                }
+            },
+            product: {
+                select: {
+                    type_id: true
+                }
+            }
+        }
+    });
+
+    const rewardLines = lines.filter((line) => line.loyalty_reward);
+    if (!sale.customer_id) {
+        if (rewardLines.length > 0) {
+            throw new SaleError("Para canjear una recompensa la venta debe tener un cliente");
+        }
+        return;
+    }
+
+    const program = await getActiveLoyaltyProgram(tx, await getSaleBranchId(tx, sale));
+    if (!program) {
+        if (rewardLines.length > 0) {
+            throw new SaleError("La sucursal no tiene un programa de lealtad activo");
+        }
+        return;
+    }
+
+    const now = new Date();
+    await expireLoyaltyPoints(tx, sale.customer_id, program.id, now);
+
+    for (const line of rewardLines) {
+        if (!Buffer.from(line.loyalty_reward.program_id).equals(Buffer.from(program.id))) {
+            throw new SaleError(`La recompensa "${line.loyalty_reward.name}" no pertenece al programa de la sucursal`);
+        }
+
+        const cost = line.loyalty_reward.points_cost * line.amount;
+        await consumeLoyaltyPoints(tx, sale.customer_id, program.id, cost);
+        await tx.loyalty_ledger.create({
+            data: {
+                id: uuidToBuffer(uuidv4()),
+                created_at: now,
+                type: "redeem",
+                points: -cost,
+                remaining: cost,
+                note: `Canje: ${line.amount}x ${line.loyalty_reward.name}`,
+                customer_id: sale.customer_id,
+                program_id: program.id,
+                sale_id: saleId,
+                sale_detail_id: line.id,
+            }
+        });
+    }
+
+    const rules = await tx.loyalty_rule.findMany({
+        where: {
+            program_id: program.id
+        },
+        select: {
+            points: true,
+            product_id: true,
+            type_product_id: true,
+        }
+    });
+
+    const productRules = new Map(rules.filter((rule) => rule.product_id).map((rule) => [Buffer.from(rule.product_id).toString("hex"), rule.points]));
+    const typeRules = new Map(rules.filter((rule) => rule.type_product_id).map((rule) => [Buffer.from(rule.type_product_id).toString("hex"), rule.points]));
+
+    // Los puntos vencen contados desde la fecha de la venta, también en ventas sincronizadas sin conexión
+    const expiresAt = getExpiryDate(program.expiry_days, sale.created_at);
+    for (const line of lines) {
+        if (line.loyalty_reward_id || !line.product_id) continue;
+
+        const pointsPerUnit = productRules.get(Buffer.from(line.product_id).toString("hex"))
+            ?? typeRules.get(Buffer.from(line.product.type_id).toString("hex"))
+            ?? 0;
+        const points = pointsPerUnit * line.amount;
+        if (points <= 0) continue;
+
+        await tx.loyalty_ledger.create({
+            data: {
+                id: uuidToBuffer(uuidv4()),
+                created_at: now,
+                type: "earn",
+                points: points,
+                remaining: points,
+                expires_at: expiresAt,
+                customer_id: sale.customer_id,
+                program_id: program.id,
+                sale_id: saleId,
+                sale_detail_id: line.id,
+            }
+        });
+    }
+}
+
+// Revierte los puntos de una venta cancelada o de una línea eliminada: devuelve los puntos canjeados
+// y retira los ganados. Los puntos ganados que ya se usaron en otro canje no se pueden retirar.
+// En una devolución parcial portion es la fracción de la línea que se devuelve.
+export async function reverseSaleLoyalty(tx: Prisma.TransactionClient, saleId: any, saleDetailId?: any, portion: number = 1) {
+    const entries = await tx.loyalty_ledger.findMany({
+        where: {
+            sale_id: saleId,
+            sale_detail_id: saleDetailId ? saleDetailId : undefined,
+            type: {
+                in: ["earn", "redeem"]
+            },
+            remaining: {
+                gt: 0
+            }
+        },
+        select: {
+            id: true,
+            type: true,
+            points: true,
+            remaining: true,
+            customer_id: true,
+            program_id: true,
+            sale_detail_id: true,
+            loyalty_program: {
+                select: {
+                    expiry_days: true
+                }
+            }
+        }
+    });
+
+    const now = new Date();
+    for (const entry of entries) {
+        const reversed = Math.min(entry.remaining, Math.round(Math.abs(entry.points) * portion));
+        if (reversed <= 0) continue;
+
+        await tx.loyalty_ledger.update({
+            where: {
+                id: entry.id
+            },
+            data: {
+                remaining: entry.remaining - reversed
+            }
+        });
+
+        const isRedeem = entry.type === "redeem";
+        await tx.loyalty_ledger.create({
+            data: {
+                id: uuidToBuffer(uuidv4()),
+                created_at: now,
+                type: "reversal",
+                points: isRedeem ? reversed : -reversed,
+                remaining: isRedeem ? reversed : 0,
+                expires_at: isRedeem ? getExpiryDate(entry.loyalty_program.expiry_days, now) : null,
+                note: isRedeem ? "Devolución de puntos canjeados" : "Retiro de puntos ganados",
+                customer_id: entry.customer_id,
+                program_id: entry.program_id,
+                sale_id: saleId,
+                sale_detail_id: entry.sale_detail_id,
+            }
+        });
+    }
+}
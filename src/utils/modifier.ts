@@ -0,0 +1,40 @@
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { bufferToUuid, uuidToBuffer } from "./common";
+import { ResolvedSaleLine } from "./sale";
+
+// Guarda los modificadores elegidos en cada línea como registros hijos del detalle de venta.
+// El nombre y la diferencia de precio se copian para que el ticket no cambie si después se edita el catálogo.
+export async function createSaleLineModifiers(tx: Prisma.TransactionClient, lines: Pick<ResolvedSaleLine, "modifiers">[], saleDetailIds: any[]) {
+    const rows = lines.flatMap((line, index) => line.modifiers.map((modifier) => ({
+        id: uuidToBuffer(uuidv4()),
+        created_at: new Date(),
+        name: modifier.name,
+        price_delta: modifier.price_delta,
+        sale_detail_id: saleDetailIds[index],
+        modifier_id: modifier.modifier_id,
+    })));
+
+    if (rows.length === 0) return;
+    await tx.sale_detail_modifier.createMany({
+        data: rows
+    });
+}
+
+// Selección de los modificadores de una línea para las respuestas de ventas y órdenes
+export const saleDetailModifierSelect = {
+    select: {
+        modifier_id: true,
+        name: true,
+        price_delta: true,
+    },
+    orderBy: {
+        created_at: 'asc' as const
+    }
+};
+
+export const formatSaleDetailModifiers = (modifiers: any[]) => modifiers.map((modifier) => ({
+    modifier_id: bufferToUuid(Buffer.from(modifier.modifier_id)),
+    name: modifier.name,
+    price_delta: modifier.price_delta,
+}));
@@ -0,0 +1,59 @@
+import { order_type, Prisma } from "@prisma/client";
+import { BranchTaxConfig } from "./branch";
+import { computeLineTax, roundMoney, SaleError } from "./sale";
+
+export const ORDER_TYPES: order_type[] = ["dine_in", "takeout", "delivery"];
+
+export interface OrderInfoInput {
+    order_type?: order_type;
+    customer_name?: string;
+    customer_phone?: string;
+    delivery_address?: string;
+}
+
+const optionalText = (value: any) => value !== undefined && value !== null && String(value).trim() ? String(value).trim() : null;
+
+// Valida el tipo de orden y los datos del cliente; las órdenes a domicilio requieren dirección y teléfono
+export function resolveOrderInfo(input: OrderInfoInput) {
+    const orderType = input.order_type || "dine_in";
+    if (!ORDER_TYPES.includes(orderType)) {
+        throw new SaleError("Tipo de orden inválido. Use dine_in, takeout o delivery");
+    }
+
+    const orderInfo = {
+        order_type: orderType,
+        customer_name: optionalText(input.customer_name),
+        customer_phone: optionalText(input.customer_phone),
+        delivery_address: optionalText(input.delivery_address),
+    };
+
+    if (orderType === "delivery" && (!orderInfo.delivery_address || !orderInfo.customer_phone)) {
+        throw new SaleError("Las órdenes a domicilio requieren dirección y teléfono del cliente");
+    }
+    return orderInfo;
+}
+
+// Suma los cargos activos de la sucursal para el tipo de orden (por ejemplo, empaque para llevar).
+// Los porcentuales se calculan sobre el importe neto de la orden. El cargo causa IVA igual que los productos.
+export async function resolveOrderSurcharges(tx: Prisma.TransactionClient, branchId: any, orderType: order_type, base: number, taxConfig: BranchTaxConfig) {
+    const surcharges = branchId ? await tx.order_type_surcharge.findMany({
+        where: {
+            branch_id: branchId,
+            order_type: orderType,
+            is_active: true
+        },
+        select: {
+            surcharge_type: true,
+            value: true,
+        }
+    }) : [];
+
+    const surchargeTotal = roundMoney(surcharges.reduce((sum, surcharge) => {
+        return sum + (surcharge.surcharge_type === "percent" ? base * surcharge.value / 100 : surcharge.value);
+    }, 0));
+
+    return {
+        surcharge_total: surchargeTotal,
+        ...computeLineTax(surchargeTotal, taxConfig.tax_rate, taxConfig.prices_include_tax),
+    };
+}
@@ -0,0 +1,194 @@
+import { Prisma } from "@prisma/client";
+import { normalizeGiftCardCode } from "./gift_card";
+import { roundMoney, SaleError } from "./sale";
+
+// Código reservado para el encabezado de ventas pagadas con varios métodos
+export const MIXED_PAYMENT_METHOD = "mixed";
+
+export interface BranchPaymentMethod {
+    id: any;
+    code: string;
+    name: string;
+    is_active: boolean;
+    counts_in_drawer: boolean;
+}
+
+// Métodos disponibles en todas las sucursales; una sucursal puede renombrarlos o desactivarlos
+// registrando un método con el mismo código
+export const DEFAULT_PAYMENT_METHODS: BranchPaymentMethod[] = [
+    { id: null, code: "cash", name: "Efectivo", is_active: true, counts_in_drawer: true },
+    { id: null, code: "card", name: "Tarjeta", is_active: true, counts_in_drawer: false },
+];
+
+// Pago con saldo de tarjeta de regalo; siempre está disponible y no entra a caja
+export const GIFT_CARD_PAYMENT_METHOD: BranchPaymentMethod = { id: null, code: "gift_card", name: "Tarjeta de regalo", is_active: true, counts_in_drawer: false };
+
+export interface SalePaymentInput {
+    method: string;
+    amount: number;
+    tendered?: number;
+    gift_card_code?: string;
+}
+
+export interface ResolvedSalePayment {
+    method: string;
+    payment_method_id: any;
+    amount: number;
+    tendered: number;
+    change: number;
+    gift_card_code: string | null;
+}
+
+// Obtiene los métodos de pago de una sucursal: los predeterminados más los configurados.
+// Sin sucursal se devuelven todos los métodos configurados para poder describir los códigos en los reportes.
+export async function getPaymentMethods(tx: Prisma.TransactionClient, branchId: any): Promise<BranchPaymentMethod[]> {
+    const methods = await tx.payment_method.findMany({
+        where: branchId ? { branch_id: branchId } : {},
+        select: {
+            id: true,
+            code: true,
+            name: true,
+            is_active: true,
+            counts_in_drawer: true,
+        },
+        orderBy: {
+            created_at: 'asc'
+        }
+    });
+
+    const methodsByCode = new Map<string, BranchPaymentMethod>(DEFAULT_PAYMENT_METHODS.map((method) => [method.code, method]));
+    const configuredCodes = new Set<string>();
+    methods.forEach((method) => {
+        if (configuredCodes.has(method.code)) return;
+        configuredCodes.add(method.code);
+        methodsByCode.set(method.code, method);
+    });
+    return Array.from(methodsByCode.values());
+}
+
+// Valida las formas de pago de una venta contra los métodos activos de la sucursal y
+// calcula el cambio de cada una. Si no se envían pagos se registra un solo pago por el total.
+// Una venta sin importe (cortesía o recompensa) no lleva formas de pago.
+export function resolveSalePayments(payments: SalePaymentInput[] | undefined, total: number, methods: BranchPaymentMethod[], paymentMethod?: string): ResolvedSalePayment[] {
+    if (roundMoney(total) === 0) {
+        return [];
+    }
+    if (!Array.isArray(payments) || payments.length === 0) {
+        payments = [{ method: paymentMethod || "cash", amount: total }];
+    }
+
+    const resolvedPayments = payments.map((payment, index) => {
+        const method = payment && payment.method === GIFT_CARD_PAYMENT_METHOD.code
+            ? GIFT_CARD_PAYMENT_METHOD
+            : payment ? methods.find((item) => item.code === payment.method && item.is_active) : undefined;
+        if (!method) {
+            throw new SaleError(`El pago ${index + 1} tiene un método de pago inválido o inactivo`);
+        }
+
+        const giftCardCode = method === GIFT_CARD_PAYMENT_METHOD ? normalizeGiftCardCode(payment.gift_card_code) : null;
+        if (giftCardCode === "") {
+            throw new SaleError(`El pago ${index + 1} con tarjeta de regalo no indica el código de la tarjeta`);
+        }
+
+        const amount = roundMoney(Number(payment.amount));
+        if (!(amount > 0)) {
+            throw new SaleError(`El pago ${index + 1} tiene un monto inválido`);
+        }
+
+        // Solo los métodos que entran a caja admiten un monto entregado mayor al cobrado
+        const tendered = method.counts_in_drawer && payment.tendered !== undefined
+            ? roundMoney(Number(payment.tendered))
+            : amount;
+        if (!(tendered >= amount)) {
+            throw new SaleError(`El monto entregado en el pago ${index + 1} es menor al monto a cobrar`);
+        }
+
+        return {
+            method: method.code,
+            payment_method_id: method.id,
+            amount: amount,
+            tendered: tendered,
+            change: roundMoney(tendered - amount),
+            gift_card_code: giftCardCode,
+        };
+    });
+
+    const paid = roundMoney(resolvedPayments.reduce((sum, payment) => sum + payment.amount, 0));
+    if (paid !== roundMoney(total)) {
+        throw new SaleError(`La suma de los pagos (${paid.toFixed(2)}) no coincide con el total de la venta (${roundMoney(total).toFixed(2)})`);
+    }
+
+    return resolvedPayments;
+}
+
+export interface RefundPaymentSource {
+    sale_payment_id: any;
+    method: string;
+    gift_card_id: any;
+    amount: number;
+    refunded: number;
+}
+
+export interface ResolvedRefundPayment {
+    sale_payment_id: any;
+    method: string;
+    gift_card_id: any;
+    amount: number;
+}
+
+// Reparte el importe de una devolución entre las formas de pago de la venta en la proporción en que se cobró.
+// La última forma de pago absorbe el redondeo y ninguna devuelve más de lo que se cobró con ella.
+export function allocateRefundPayments(sources: RefundPaymentSource[], total: number): ResolvedRefundPayment[] {
+    const paid = sources.reduce((sum, source) => sum + source.amount, 0);
+    let pending = roundMoney(total);
+
+    return sources.map((source, index) => {
+        const available = roundMoney(source.amount - source.refunded);
+        const share = index === sources.length - 1 ? pending : roundMoney(paid > 0 ? total * source.amount / paid : 0);
+        const amount = roundMoney(Math.max(0, Math.min(available, share, pending)));
+        pending = roundMoney(pending - amount);
+        return {
+            sale_payment_id: source.sale_payment_id,
+            method: source.method,
+            gift_card_id: source.gift_card_id,
+            amount: amount,
+        };
+    }).filter((payment) => payment.amount > 0);
+}
+
+// Método que se guarda en el encabezado de la venta; sin pagos se conserva el método indicado
+export function getSalePaymentMethod(payments: ResolvedSalePayment[], paymentMethod?: string): string {
+    if (payments.length === 0) {
+        return paymentMethod || "cash";
+    }
+    const methods = new Set(payments.map((payment) => payment.method));
+    return methods.size === 1 ? payments[0].method : MIXED_PAYMENT_METHOD;
+}
+
+// Acumula los importes cobrados por método de pago. Las ventas registradas antes de
+// los pagos divididos no tienen pagos y se agrupan con el método del encabezado.
+export function sumPaymentsByMethod(sales: { total: number; payment_method: string; sale_payment: { method: string; amount: number }[] }[]): Record<string, number> {
+    return sales.reduce((acc: Record<string, number>, sale) => {
+        const payments = sale.sale_payment.length > 0
+            ? sale.sale_payment
+            : [{ method: sale.payment_method, amount: sale.total }];
+
+        payments.forEach((payment) => {
+            acc[payment.method] = roundMoney((acc[payment.method] || 0) + Number(payment.amount));
+        });
+        return acc;
+    }, {});
+}
+
+// Describe los totales por método con el nombre configurado y si entran a caja
+export function describePaymentTotals(totals: Record<string, number>, methods: BranchPaymentMethod[]) {
+    return Object.entries(totals).map(([code, total]) => {
+        const method = code === GIFT_CARD_PAYMENT_METHOD.code ? GIFT_CARD_PAYMENT_METHOD : methods.find((item) => item.code === code);
+        return {
+            code: code,
+            name: method ? method.name : code,
+            counts_in_drawer: method ? method.counts_in_drawer : false,
+            total: total,
+        };
+    });
+}
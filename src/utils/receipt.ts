@@ -0,0 +1,367 @@
+import { Prisma } from "@prisma/client";
+import { bufferToUuid } from "./common";
+import { getSaleBranchId } from "./branch";
+import { getPaymentMethods, GIFT_CARD_PAYMENT_METHOD } from "./payment";
+import { DEFAULT_TIMEZONE, formatLocalDateTime } from "./timezone";
+
+export type ReceiptFormat = 'escpos58' | 'escpos80' | 'text' | 'pdf';
+
+// Caracteres por renglón de cada formato; 58mm y 80mm corresponden a la fuente A de las impresoras térmicas
+export const RECEIPT_WIDTHS: Record<ReceiptFormat, number> = {
+    escpos58: 32,
+    escpos80: 48,
+    text: 40,
+    pdf: 40,
+};
+
+interface ReceiptLine {
+    text: string;
+    align?: 'left' | 'center';
+    bold?: boolean;
+    large?: boolean;
+}
+
+// Comandos ESC/POS
+const ESC = 0x1b;
+const GS = 0x1d;
+const ESCPOS_INIT = [ESC, 0x40];
+const ESCPOS_CODEPAGE_1252 = [ESC, 0x74, 16];
+const ESCPOS_ALIGN_LEFT = [ESC, 0x61, 0];
+const ESCPOS_ALIGN_CENTER = [ESC, 0x61, 1];
+const ESCPOS_BOLD_ON = [ESC, 0x45, 1];
+const ESCPOS_BOLD_OFF = [ESC, 0x45, 0];
+const ESCPOS_DOUBLE_ON = [GS, 0x21, 0x11];
+const ESCPOS_DOUBLE_OFF = [GS, 0x21, 0x00];
+const ESCPOS_FEED_AND_CUT = [GS, 0x56, 66, 3];
+
+// Medidas del PDF en puntos; el ancho de la fuente Courier es 0.6 veces su tamaño
+const PDF_FONT_SIZE = 8;
+const PDF_LINE_HEIGHT = 10;
+const PDF_MARGIN = 14;
+
+// Carga la venta con sus líneas, pagos, cajero y la configuración de ticket de la sucursal
+export async function buildReceipt(tx: Prisma.TransactionClient, saleId: any) {
+    const sale = await tx.sale.findUnique({
+        where: {
+            id: saleId
+        },
+        select: {
+            id: true,
+            created_at: true,
+            ticket_number: true,
+            order_type: true,
+            customer_name: true,
+            customer_phone: true,
+            delivery_address: true,
+            surcharge_total: true,
+            total: true,
+            discount_total: true,
+            tax_amount: true,
+            prices_include_tax: true,
+            payment_method: true,
+            status: true,
+            receipt_print_count: true,
+            branch_id: true,
+            user_id: true,
+            user: {
+                select: {
+                    name: true
+                }
+            },
+            sale_detail: {
+                select: {
+                    amount: true,
+                    subtotal: true,
+                    note: true,
+                    gift_card_id: true,
+                    sale_detail_modifier: {
+                        select: {
+                            name: true,
+                            price_delta: true,
+                        },
+                        orderBy: {
+                            created_at: 'asc'
+                        }
+                    },
+                    sale_detail_combo_item: {
+                        select: {
+                            amount: true,
+                            upcharge: true,
+                            product: {
+                                select: {
+                                    name: true
+                                }
+                            }
+                        },
+                        orderBy: {
+                            created_at: 'asc'
+                        }
+                    },
+                    product: {
+                        select: {
+                            name: true
+                        }
+                    },
+                    combo: {
+                        select: {
+                            name: true
+                        }
+                    }
+                },
+                orderBy: {
+                    created_at: 'asc'
+                }
+            },
+            sale_payment: {
+                select: {
+                    method: true,
+                    amount: true,
+                    tendered: true,
+                    change: true,
+                }
+            }
+        }
+    });
+
+    if (!sale) return null;
+
+    const branchId = await getSaleBranchId(tx, sale);
+    const branch = branchId ? await tx.branch.findUnique({
+        where: {
+            id: branchId
+        },
+        select: {
+            name: true,
+            receipt_header: true,
+            receipt_footer: true,
+            timezone: true,
+        }
+    }) : null;
+
+    const paymentMethods = await getPaymentMethods(tx, branchId);
+    const methodNames = new Map([...paymentMethods, GIFT_CARD_PAYMENT_METHOD].map((method) => [method.code, method.name]));
+    const payments = sale.sale_payment.length > 0
+        ? sale.sale_payment
+        : [{ method: sale.payment_method, amount: sale.total, tendered: sale.total, change: 0 }];
+
+    return {
+        sale_id: bufferToUuid(Buffer.from(sale.id)),
+        ticket_number: sale.ticket_number,
+        order_type: sale.order_type,
+        customer_name: sale.customer_name,
+        customer_phone: sale.customer_phone,
+        delivery_address: sale.delivery_address,
+        created_at: sale.created_at,
+        status: sale.status,
+        // La primera impresión es el original; las siguientes son copias
+        is_copy: sale.receipt_print_count > 1,
+        branch_name: branch ? branch.name : '',
+        header: branch?.receipt_header || '',
+        footer: branch?.receipt_footer || '',
+        timezone: branch?.timezone || DEFAULT_TIMEZONE,
+        cashier: sale.user.name,
+        items: sale.sale_detail.map((detail) => ({
+            name: detail.product?.name || detail.combo?.name || (detail.gift_card_id ? 'Tarjeta de regalo' : 'Desconocido'),
+            amount: detail.amount,
+            subtotal: detail.subtotal,
+            modifiers: detail.sale_detail_modifier.map((modifier) => modifier.name),
+            combo_items: detail.sale_detail_combo_item.map((item) => `${item.amount} x ${item.product.name}${item.upcharge > 0 ? ` (+${money(item.upcharge * item.amount)})` : ''}`),
+            note: detail.note,
+        })),
+        subtotal: sale.sale_detail.reduce((sum, detail) => sum + detail.subtotal, 0),
+        discount_total: sale.discount_total,
+        surcharge_total: sale.surcharge_total,
+        tax_amount: sale.tax_amount,
+        prices_include_tax: sale.prices_include_tax,
+        total: sale.total,
+        payments: payments.map((payment) => ({
+            name: methodNames.get(payment.method) || payment.method,
+            amount: payment.amount,
+            tendered: payment.tendered,
+            change: payment.change,
+        })),
+    };
+}
+
+type Receipt = NonNullable<Awaited<ReturnType<typeof buildReceipt>>>;
+
+const ORDER_TYPE_LABELS: Record<string, string> = {
+    dine_in: 'Para comer aqui',
+    takeout: 'Para llevar',
+    delivery: 'A domicilio',
+};
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+// Parte un texto en renglones del ancho indicado
+const wrap = (text: string, width: number): string[] => {
+    const lines: string[] = [];
+    String(text).split('\n').forEach((paragraph) => {
+        let rest = paragraph.trim();
+        while (rest.length > width) {
+            lines.push(rest.slice(0, width));
+            rest = rest.slice(width).trim();
+        }
+        lines.push(rest);
+    });
+    return lines;
+};
+
+const leftRight = (left: string, right: string, width: number) => {
+    const label = left.slice(0, Math.max(1, width - right.length - 1));
+    return label + right.padStart(width - label.length);
+};
+
+// Arma los renglones del ticket con su formato (alineación, negritas); los renderizadores solo los traducen
+function buildReceiptLines(receipt: Receipt, width: number): ReceiptLine[] {
+    const separator: ReceiptLine = { text: '-'.repeat(width) };
+    const localDate = formatLocalDateTime(receipt.created_at, receipt.timezone);
+    const lines: ReceiptLine[] = [];
+
+    if (receipt.branch_name) {
+        lines.push({ text: receipt.branch_name.slice(0, Math.floor(width / 2)), align: 'center', bold: true, large: true });
+    }
+    if (receipt.header) {
+        wrap(receipt.header, width).forEach((text) => lines.push({ text, align: 'center' }));
+    }
+    if (receipt.ticket_number) {
+        lines.push({ text: `TICKET #${receipt.ticket_number}`, align: 'center', bold: true, large: true });
+    }
+    if (receipt.is_copy) {
+        lines.push({ text: '*** COPIA ***', align: 'center', bold: true });
+    }
+    if (receipt.status === 'voided') {
+        lines.push({ text: '*** VENTA CANCELADA ***', align: 'center', bold: true });
+    }
+
+    lines.push(
+        separator,
+        { text: `Folio: ${receipt.sale_id.slice(0, 8).toUpperCase()}` },
+        { text: `Fecha: ${localDate.slice(0, 16)}` },
+        { text: `Cajero: ${receipt.cashier}`.slice(0, width) },
+        { text: ORDER_TYPE_LABELS[receipt.order_type], bold: true },
+    );
+    if (receipt.customer_name) {
+        lines.push({ text: `Cliente: ${receipt.customer_name}`.slice(0, width) });
+    }
+    if (receipt.customer_phone) {
+        lines.push({ text: `Tel: ${receipt.customer_phone}` });
+    }
+    if (receipt.delivery_address) {
+        wrap(`Entregar en: ${receipt.delivery_address}`, width).forEach((text) => lines.push({ text }));
+    }
+    lines.push(separator);
+
+    receipt.items.forEach((item) => {
+        lines.push({ text: leftRight(`${item.amount} x ${item.name}`, money(item.subtotal), width) });
+        item.combo_items.forEach((comboItem) => {
+            wrap(`- ${comboItem}`, width - 2).forEach((text) => lines.push({ text: `  ${text}` }));
+        });
+        item.modifiers.forEach((modifier) => {
+            wrap(`+ ${modifier}`, width - 2).forEach((text) => lines.push({ text: `  ${text}` }));
+        });
+        if (item.note) {
+            wrap(item.note, width - 2).forEach((text) => lines.push({ text: `  ${text}` }));
+        }
+    });
+
+    lines.push(separator, { text: leftRight('Subtotal', money(receipt.subtotal), width) });
+    if (receipt.discount_total > 0) {
+        lines.push({ text: leftRight('Descuentos', `-${money(receipt.discount_total)}`, width) });
+    }
+    if (receipt.surcharge_total > 0) {
+        lines.push({ text: leftRight('Cargos por servicio', money(receipt.surcharge_total), width) });
+    }
+    lines.push(
+        { text: leftRight(receipt.prices_include_tax ? 'IVA incluido' : 'IVA', money(receipt.tax_amount), width) },
+        { text: leftRight('TOTAL', money(receipt.total), width), bold: true },
+        separator,
+    );
+
+    receipt.payments.forEach((payment) => {
+        lines.push({ text: leftRight(payment.name, money(payment.amount), width) });
+        if (payment.change > 0) {
+            lines.push(
+                { text: leftRight('  Recibido', money(payment.tendered), width) },
+                { text: leftRight('  Cambio', money(payment.change), width) },
+            );
+        }
+    });
+
+    if (receipt.footer) {
+        lines.push(separator);
+        wrap(receipt.footer, width).forEach((text) => lines.push({ text, align: 'center' }));
+    }
+
+    return lines;
+}
+
+// Las impresoras y la fuente estándar del PDF usan Windows-1252; lo que no cabe se reemplaza
+const toLatin1 = (text: string) => text.replace(/[^\x00-\xff]/g, '?');
+
+const centerText = (text: string, width: number) => {
+    return text.padStart(Math.floor((width + text.length) / 2)).padEnd(width);
+};
+
+// Ticket en texto plano de ancho fijo
+export function renderReceiptText(receipt: Receipt, width: number = RECEIPT_WIDTHS.text): string {
+    return buildReceiptLines(receipt, width)
+        .map((line) => line.align === 'center' ? centerText(line.text, width).trimEnd() : line.text)
+        .join('\n') + '\n';
+}
+
+// Ticket en bytes ESC/POS listo para enviarse a una impresora térmica
+export function renderReceiptEscPos(receipt: Receipt, width: number): Buffer {
+    const bytes: number[] = [...ESCPOS_INIT, ...ESCPOS_CODEPAGE_1252];
+
+    buildReceiptLines(receipt, width).forEach((line) => {
+        bytes.push(...(line.align === 'center' ? ESCPOS_ALIGN_CENTER : ESCPOS_ALIGN_LEFT));
+        if (line.bold) bytes.push(...ESCPOS_BOLD_ON);
+        if (line.large) bytes.push(...ESCPOS_DOUBLE_ON);
+        bytes.push(...Buffer.from(toLatin1(line.text) + '\n', 'latin1'));
+        if (line.large) bytes.push(...ESCPOS_DOUBLE_OFF);
+        if (line.bold) bytes.push(...ESCPOS_BOLD_OFF);
+    });
+
+    bytes.push(...ESCPOS_ALIGN_LEFT, ...ESCPOS_FEED_AND_CUT);
+    return Buffer.from(bytes);
+}
+
+const escapePdfText = (text: string) => toLatin1(text).replace(/([\\()])/g, '\\$1');
+
+// Ticket en PDF de una sola página del ancho de un rollo, con fuentes estándar (sin incrustar)
+export function renderReceiptPdf(receipt: Receipt, width: number = RECEIPT_WIDTHS.pdf): Buffer {
+    const lines = buildReceiptLines(receipt, width);
+    const pageWidth = Math.ceil(width * PDF_FONT_SIZE * 0.6 + PDF_MARGIN * 2);
+    const pageHeight = lines.length * PDF_LINE_HEIGHT + PDF_MARGIN * 2;
+
+    const content = lines.map((line, index) => {
+        const text = line.align === 'center' ? centerText(line.text, width) : line.text;
+        const y = pageHeight - PDF_MARGIN - (index + 1) * PDF_LINE_HEIGHT + 2;
+        return `BT /${line.bold ? 'F2' : 'F1'} ${PDF_FONT_SIZE} Tf 1 0 0 1 ${PDF_MARGIN} ${y} Tm (${escapePdfText(text)}) Tj ET`;
+    }).join('\n');
+
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ];
+
+    // Todo el documento es de un byte por carácter, así que las posiciones de la tabla xref son longitudes de texto
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+        const offset = pdf.length;
+        pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+}
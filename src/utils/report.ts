@@ -0,0 +1,311 @@
+import { Prisma } from "@prisma/client";
+import { bufferToUuid } from "./common";
+import { describePaymentTotals, getPaymentMethods, sumPaymentsByMethod } from "./payment";
+import { roundMoney, SaleError } from "./sale";
+import { DEFAULT_TIMEZONE, getLocalDate, getLocalDayEnd, getLocalDayStart } from "./timezone";
+
+// Ancho en caracteres del reporte en texto plano
+const REPORT_TEXT_WIDTH = 40;
+
+// Fecha del día de negocio (YYYY-MM-DD) en la zona horaria de la sucursal
+export function getBusinessDate(timeZone: string, date: Date = new Date()): string {
+    return getLocalDate(date, timeZone);
+}
+
+// Selección de una devolución con lo necesario para calcular cuánto descuenta de las ventas
+export const refundAmountSelect = {
+    total: true,
+    sale_refund_detail: {
+        select: {
+            subtotal: true,
+            sale_detail: {
+                select: {
+                    gift_card_id: true
+                }
+            }
+        }
+    }
+};
+
+// Importe de una devolución que se descuenta de las ventas: el total devuelto (incluidos los cargos
+// de la última devolución) menos las tarjetas de regalo devueltas, que nunca contaron como venta
+export function getRefundAmount(refund: { total: number; sale_refund_detail: { subtotal: number; sale_detail: { gift_card_id: any } }[] }): number {
+    const giftCards = refund.sale_refund_detail
+        .filter((detail) => detail.sale_detail.gift_card_id)
+        .reduce((sum, detail) => sum + detail.subtotal, 0);
+    return roundMoney(refund.total - giftCards);
+}
+
+// Un día de negocio cerrado con reporte Z ya no admite ventas, cancelaciones ni devoluciones;
+// el reporte guardado dejaría de cuadrar con los movimientos del día
+export async function assertBusinessDayOpen(tx: Prisma.TransactionClient, branchId: any, businessDate: string) {
+    if (!branchId) return;
+
+    const zReport = await tx.z_report.findFirst({
+        where: {
+            branch_id: branchId,
+            business_date: new Date(`${businessDate}T00:00:00Z`)
+        },
+        select: {
+            number: true
+        }
+    });
+
+    if (zReport) {
+        throw new SaleError(`El día de negocio ${businessDate} ya se cerró con el reporte Z #${zReport.number}`, 409);
+    }
+}
+
+// Arma el corte del día de una sucursal: ventas brutas, cancelaciones, devoluciones,
+// descuentos, totales por forma de pago, tickets, productos más vendidos y desglose por cajero.
+export async function buildDailyReport(tx: Prisma.TransactionClient, branchId: any, date: string) {
+    const branch = await tx.branch.findUnique({
+        where: {
+            id: branchId
+        },
+        select: {
+            name: true,
+            timezone: true
+        }
+    });
+
+    // El día de negocio se delimita en la zona horaria de la sucursal
+    const timeZone = branch?.timezone || DEFAULT_TIMEZONE;
+    const startDate = getLocalDayStart(date, timeZone);
+    const endDate = getLocalDayEnd(date, timeZone);
+
+    const branchFilter = {
+        branch_id: branchId
+    };
+
+    // Las órdenes abiertas aún no se cobran, así que no forman parte del corte
+    const sales = await tx.sale.findMany({
+        where: {
+            ...branchFilter,
+            status: {
+                not: "open"
+            },
+            created_at: {
+                gte: startDate,
+                lt: endDate
+            }
+        },
+        select: {
+            total: true,
+            discount_total: true,
+            gift_card_total: true,
+            payment_method: true,
+            user_id: true,
+            user: {
+                select: {
+                    name: true
+                }
+            },
+            sale_payment: {
+                select: {
+                    method: true,
+                    amount: true,
+                }
+            },
+            sale_detail: {
+                select: {
+                    amount: true,
+                    subtotal: true,
+                    discount_amount: true,
+                    gift_card_id: true,
+                    product: {
+                        select: {
+                            name: true
+                        }
+                    },
+                    combo: {
+                        select: {
+                            name: true
+                        }
+                    }
+                }
+            }
+        }
+    });
+
+    const voidedSales = await tx.sale.findMany({
+        where: {
+            ...branchFilter,
+            voided_at: {
+                gte: startDate,
+                lt: endDate
+            }
+        },
+        select: {
+            total: true,
+            gift_card_total: true,
+            user_id: true,
+            user: {
+                select: {
+                    name: true
+                }
+            }
+        }
+    });
+
+    const refunds = await tx.sale_refund.findMany({
+        where: {
+            created_at: {
+                gte: startDate,
+                lt: endDate
+            },
+            sale: branchFilter
+        },
+        select: {
+            ...refundAmountSelect,
+            sale: {
+                select: {
+                    user_id: true,
+                    user: {
+                        select: {
+                            name: true
+                        }
+                    }
+                }
+            }
+        }
+    });
+
+    const paymentMethods = await getPaymentMethods(tx, branchId);
+
+    // Desglose por cajero
+    const cashiers = new Map<string, any>();
+    const getCashier = (userId: any, name: string) => {
+        const key = bufferToUuid(Buffer.from(userId));
+        if (!cashiers.has(key)) {
+            cashiers.set(key, { user_id: key, name, tickets: 0, gross_sales: 0, discounts: 0, voids: 0, refunds: 0, net_sales: 0, gift_cards_sold: 0, sales: [] });
+        }
+        return cashiers.get(key);
+    };
+
+    sales.forEach((sale) => {
+        const cashier = getCashier(sale.user_id, sale.user.name);
+        cashier.tickets += 1;
+        cashier.gross_sales += sale.total - sale.gift_card_total + sale.discount_total;
+        cashier.discounts += sale.discount_total;
+        cashier.gift_cards_sold += sale.gift_card_total;
+        cashier.sales.push(sale);
+    });
+    voidedSales.forEach((sale) => {
+        getCashier(sale.user_id, sale.user.name).voids += sale.total - sale.gift_card_total;
+    });
+    refunds.forEach((refund) => {
+        getCashier(refund.sale.user_id, refund.sale.user.name).refunds += getRefundAmount(refund);
+    });
+
+    // Productos y combos más vendidos
+    const items = new Map<string, { name: string; type: string; quantity: number; total: number }>();
+    sales.forEach((sale) => {
+        sale.sale_detail.forEach((detail) => {
+            if (detail.gift_card_id) return;
+            const type = detail.product ? 'product' : 'combo';
+            const name = detail.product?.name || detail.combo?.name || 'Desconocido';
+            const key = `${type}-${name}`;
+            const item = items.get(key) || { name, type, quantity: 0, total: 0 };
+            item.quantity += detail.amount;
+            item.total = roundMoney(item.total + detail.subtotal - detail.discount_amount);
+            items.set(key, item);
+        });
+    });
+
+    // Las ventas brutas son antes de descuentos; las netas descuentan descuentos, cancelaciones y devoluciones.
+    // Las tarjetas de regalo vendidas son un pasivo, no una venta, así que se reportan aparte.
+    const grossSales = sales.reduce((sum, sale) => sum + sale.total - sale.gift_card_total + sale.discount_total, 0);
+    const voidsTotal = voidedSales.reduce((sum, sale) => sum + sale.total - sale.gift_card_total, 0);
+    const giftCardsSold = sales.reduce((sum, sale) => sum + sale.gift_card_total, 0);
+    const refundsTotal = refunds.reduce((sum, refund) => sum + getRefundAmount(refund), 0);
+    const discountsTotal = sales.reduce((sum, sale) => sum + sale.discount_total, 0);
+    const tenderTotals = sumPaymentsByMethod(sales);
+
+    return {
+        branch_id: bufferToUuid(Buffer.from(branchId)),
+        branch_name: branch ? branch.name : null,
+        business_date: date,
+        generated_at: new Date(),
+        tickets: sales.length,
+        gross_sales: roundMoney(grossSales),
+        voids: {
+            count: voidedSales.length,
+            total: roundMoney(voidsTotal),
+        },
+        refunds: {
+            count: refunds.length,
+            total: roundMoney(refundsTotal),
+        },
+        discounts: roundMoney(discountsTotal),
+        net_sales: roundMoney(grossSales - discountsTotal - voidsTotal - refundsTotal),
+        gift_cards_sold: roundMoney(giftCardsSold),
+        tenders: describePaymentTotals(tenderTotals, paymentMethods),
+        top_items: Array.from(items.values())
+            .sort((a, b) => b.quantity - a.quantity)
+            .slice(0, 10),
+        cashiers: Array.from(cashiers.values()).map(({ sales: cashierSales, ...cashier }) => ({
+            ...cashier,
+            gross_sales: roundMoney(cashier.gross_sales),
+            discounts: roundMoney(cashier.discounts),
+            voids: roundMoney(cashier.voids),
+            refunds: roundMoney(cashier.refunds),
+            net_sales: roundMoney(cashier.gross_sales - cashier.discounts - cashier.voids - cashier.refunds),
+            gift_cards_sold: roundMoney(cashier.gift_cards_sold),
+            tenders: describePaymentTotals(sumPaymentsByMethod(cashierSales), paymentMethods),
+        })),
+    };
+}
+
+const textLine = (label: string, value: string | number) => {
+    const text = typeof value === 'number' ? value.toFixed(2) : value;
+    return label + text.padStart(Math.max(1, REPORT_TEXT_WIDTH - label.length));
+};
+
+const textCenter = (text: string) => {
+    return text.padStart(Math.floor((REPORT_TEXT_WIDTH + text.length) / 2)).padEnd(REPORT_TEXT_WIDTH);
+};
+
+// Representa un reporte X o Z en texto plano de ancho fijo
+export function renderReportText(report: any, type: 'X' | 'Z', number?: number): string {
+    const separator = '-'.repeat(REPORT_TEXT_WIDTH);
+    const lines: string[] = [
+        textCenter(report.branch_name || ''),
+        textCenter(type === 'Z' ? `REPORTE Z #${number}` : 'REPORTE X'),
+        textCenter(`Dia de negocio: ${report.business_date}`),
+        textCenter(`Generado: ${new Date(report.generated_at).toISOString()}`),
+        separator,
+        textLine('Tickets', String(report.tickets)),
+        textLine('Ventas brutas', report.gross_sales),
+        textLine(`Cancelaciones (${report.voids.count})`, -report.voids.total),
+        textLine(`Devoluciones (${report.refunds.count})`, -report.refunds.total),
+        textLine('Descuentos', -report.discounts),
+        textLine('Ventas netas', report.net_sales),
+        textLine('Tarjetas de regalo vendidas', report.gift_cards_sold || 0),
+        separator,
+        'FORMAS DE PAGO',
+        ...report.tenders.map((tender: any) => textLine(tender.name, tender.total)),
+        separator,
+        'MAS VENDIDOS',
+        ...report.top_items.map((item: any) => textLine(`${item.quantity} x ${item.name}`.slice(0, REPORT_TEXT_WIDTH - 11), item.total)),
+        separator,
+        'POR CAJERO',
+    ];
+
+    report.cashiers.forEach((cashier: any) => {
+        lines.push(
+            cashier.name,
+            textLine('  Tickets', String(cashier.tickets)),
+            textLine('  Ventas brutas', cashier.gross_sales),
+            textLine('  Descuentos', -cashier.discounts),
+            textLine('  Cancelaciones', -cashier.voids),
+            textLine('  Devoluciones', -cashier.refunds),
+            textLine('  Ventas netas', cashier.net_sales),
+            textLine('  Tarjetas de regalo', cashier.gift_cards_sold || 0),
+            ...cashier.tenders.map((tender: any) => textLine(`  ${tender.name}`, tender.total)),
+        );
+    });
+
+    lines.push(separator);
+    return lines.join('\n') + '\n';
+}
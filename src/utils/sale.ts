@@ -0,0 +1,704 @@
+import { discount_type, Prisma } from "@prisma/client";
+import { UUID_PATTERN, uuidToBuffer } from "./common";
+import { BranchTaxConfig } from "./branch";
+
+// Error de validación de una venta; se responde al cliente con el status indicado
+export class SaleError extends Error {
+    status: number;
+
+    constructor(message: string, status: number = 400) {
+        super(message);
+        this.status = status;
+    }
+}
+
+// Saldo máximo con el que se puede vender una tarjeta de regalo
+export const MAX_GIFT_CARD_VALUE = 10000;
+
+export interface DiscountInput {
+    type: discount_type;
+    value: number;
+    reason_id?: string;
+}
+
+export interface SaleLineInput {
+    product_id?: string;
+    combo_id?: string;
+    reward_id?: string;
+    gift_card_value?: number;
+    amount: number;
+    note?: string;
+    discount?: DiscountInput;
+    modifiers?: string[];
+    combo_items?: SaleComboItemInput[];
+}
+
+// Producto elegido para un espacio (combo_detail) del combo; la cantidad es por cada combo vendido
+export interface SaleComboItemInput {
+    combo_detail_id: string;
+    product_id: string;
+    amount?: number;
+}
+
+export interface ResolvedSaleComboItem {
+    combo_detail_id: any;
+    product_id: any;
+    name: string;
+    amount: number;
+    upcharge: number;
+}
+
+export interface ResolvedSaleModifier {
+    modifier_id: any;
+    name: string;
+    price_delta: number;
+}
+
+export interface ResolvedSaleLine {
+    product_id: any;
+    combo_id: any;
+    loyalty_reward_id: any;
+    is_gift_card: boolean;
+    gift_card_id: any;
+    modifiers: ResolvedSaleModifier[];
+    combo_items: ResolvedSaleComboItem[];
+    amount: number;
+    unit_price: number;
+    subtotal: number;
+    note: string;
+    discount_type: discount_type | null;
+    discount_value: number | null;
+    discount_reason_id: any;
+    discount_amount: number;
+    is_tax_exempt: boolean;
+    tax_rate: number;
+    tax_base: number;
+    tax_amount: number;
+    total: number;
+}
+
+export interface ResolvedOrderDiscount {
+    discount_type: discount_type | null;
+    discount_value: number | null;
+    discount_amount: number;
+    discount_reason_id: any;
+    promo_code_id: any;
+}
+
+// Redondea un importe a centavos
+export function roundMoney(value: number): number {
+    return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// Calcula el monto de un descuento porcentual o fijo sobre un importe, sin exceder el importe
+export function computeDiscountAmount(base: number, discount: { type: discount_type; value: number }): number {
+    const value = Number(discount.value);
+    if (discount.type === "percent") {
+        if (!(value > 0 && value <= 100)) {
+            throw new SaleError("El porcentaje de descuento debe estar entre 0 y 100");
+        }
+        return roundMoney(base * value / 100);
+    }
+    if (discount.type === "fixed") {
+        if (!(value > 0)) {
+            throw new SaleError("El monto del descuento debe ser mayor a 0");
+        }
+        return roundMoney(Math.min(value, base));
+    }
+    throw new SaleError("Tipo de descuento inválido. Use percent o fixed");
+}
+
+// Valida que los motivos de descuento existan y estén activos
+async function resolveDiscountReasons(tx: Prisma.TransactionClient, reasonIds: string[]): Promise<Map<string, any>> {
+    const uniqueIds = Array.from(new Set(reasonIds.filter(Boolean)));
+    if (uniqueIds.length === 0) return new Map();
+
+    const reasons = await tx.discount_reason.findMany({
+        where: {
+            id: { in: uniqueIds.map((id) => uuidToBuffer(id)) }
+        },
+        select: {
+            id: true,
+            name: true,
+            is_active: true,
+        }
+    });
+
+    const reasonMap = new Map(reasons.map((reason) => [Buffer.from(reason.id).toString("hex"), reason]));
+    uniqueIds.forEach((id) => {
+        const reason = reasonMap.get(uuidToBuffer(id).toString("hex"));
+        if (!reason) {
+            throw new SaleError("El motivo de descuento no existe", 404);
+        }
+        if (!reason.is_active) {
+            throw new SaleError(`El motivo de descuento "${reason.name}" no está activo`);
+        }
+    });
+    return reasonMap;
+}
+
+// Valida los modificadores elegidos en cada línea contra los grupos ligados a su producto: cada modificador
+// debe pertenecer a un grupo activo del producto y cada grupo respeta su mínimo y máximo de selecciones.
+// Los grupos obligatorios piden al menos una selección aunque su mínimo sea 0.
+async function resolveLineModifiers(tx: Prisma.TransactionClient, lines: SaleLineInput[]): Promise<ResolvedSaleModifier[][]> {
+    const productIds = Array.from(new Set(lines.filter((line) => line.product_id).map((line) => line.product_id)));
+    const productGroups = productIds.length > 0 ? await tx.product_modifier_group.findMany({
+        where: {
+            product_id: { in: productIds.map((id) => uuidToBuffer(id)) },
+            modifier_group: {
+                is_active: true
+            }
+        },
+        select: {
+            product_id: true,
+            modifier_group: {
+                select: {
+                    id: true,
+                    name: true,
+                    is_required: true,
+                    min_select: true,
+                    max_select: true,
+                    modifier: {
+                        select: {
+                            id: true,
+                            name: true,
+                            price_delta: true,
+                            is_active: true,
+                        }
+                    }
+                }
+            }
+        }
+    }) : [];
+
+    return lines.map((line, index) => {
+        const selectedIds = Array.isArray(line.modifiers) ? line.modifiers : [];
+        if (!line.product_id || line.reward_id) {
+            if (selectedIds.length > 0) {
+                throw new SaleError(`La línea ${index + 1} no admite modificadores; solo los productos los tienen`);
+            }
+            return [];
+        }
+
+        const productKey = uuidToBuffer(line.product_id).toString("hex");
+        const groups = productGroups
+            .filter((item) => Buffer.from(item.product_id).toString("hex") === productKey)
+            .map((item) => item.modifier_group);
+        const selectedKeys = selectedIds.map((id) => uuidToBuffer(id).toString("hex"));
+        if (new Set(selectedKeys).size !== selectedKeys.length) {
+            throw new SaleError(`La línea ${index + 1} repite un modificador`);
+        }
+
+        const resolvedModifiers: ResolvedSaleModifier[] = [];
+        const matchedKeys = new Set<string>();
+        groups.forEach((group) => {
+            const chosen = group.modifier.filter((modifier) => selectedKeys.includes(Buffer.from(modifier.id).toString("hex")));
+            const minSelect = Math.max(group.min_select, group.is_required ? 1 : 0);
+            if (chosen.length < minSelect) {
+                throw new SaleError(`La línea ${index + 1} requiere al menos ${minSelect} opción(es) de "${group.name}"`);
+            }
+            if (group.max_select !== null && chosen.length > group.max_select) {
+                throw new SaleError(`La línea ${index + 1} admite como máximo ${group.max_select} opción(es) de "${group.name}"`);
+            }
+
+            chosen.forEach((modifier) => {
+                if (!modifier.is_active) {
+                    throw new SaleError(`El modificador "${modifier.name}" no está activo`);
+                }
+                matchedKeys.add(Buffer.from(modifier.id).toString("hex"));
+                resolvedModifiers.push({
+                    modifier_id: modifier.id,
+                    name: modifier.name,
+                    price_delta: modifier.price_delta,
+                });
+            });
+        });
+
+        if (matchedKeys.size !== selectedKeys.length) {
+            throw new SaleError(`La línea ${index + 1} tiene un modificador que no corresponde a su producto`);
+        }
+        return resolvedModifiers;
+    });
+}
+
+// Valida los productos elegidos dentro de cada combo: cada selección debe corresponder a un espacio
+// (combo_detail) del combo vendido, y el producto debe estar activo, ser del tipo de ese espacio y de la
+// sucursal del combo. Cada espacio se llena exactamente con su cantidad. El cargo extra de un producto
+// dentro de su espacio (combo_slot_upcharge) se toma del catálogo al momento de la venta.
+async function resolveLineComboItems(tx: Prisma.TransactionClient, lines: SaleLineInput[]): Promise<ResolvedSaleComboItem[][]> {
+    const comboIds = Array.from(new Set(lines.filter((line) => line.combo_id).map((line) => line.combo_id)));
+    const selectedProductIds = Array.from(new Set(lines.flatMap((line) => Array.isArray(line.combo_items) ? line.combo_items.map((item) => item?.product_id) : []).filter(Boolean)));
+
+    const comboDetails = comboIds.length > 0 ? await tx.combo_detail.findMany({
+        where: {
+            combo_id: { in: comboIds.map((id) => uuidToBuffer(id)) }
+        },
+        select: {
+            id: true,
+            amount: true,
+            combo_id: true,
+            type_product_id: true,
+            type_product: {
+                select: {
+                    name: true
+                }
+            },
+            combo: {
+                select: {
+                    branch_id: true
+                }
+            },
+            combo_slot_upcharge: {
+                select: {
+                    product_id: true,
+                    amount: true,
+                }
+            }
+        }
+    }) : [];
+
+    const products = selectedProductIds.length > 0 ? await tx.product.findMany({
+        where: {
+            id: { in: selectedProductIds.map((id) => uuidToBuffer(id)) }
+        },
+        select: {
+            id: true,
+            name: true,
+            type_id: true,
+            is_active: true,
+            branch_id: true,
+        }
+    }) : [];
+
+    const comboDetailMap = new Map(comboDetails.map((detail) => [Buffer.from(detail.id).toString("hex"), detail]));
+    const productMap = new Map(products.map((product) => [Buffer.from(product.id).toString("hex"), product]));
+
+    return lines.map((line, index) => {
+        const items = Array.isArray(line.combo_items) ? line.combo_items : [];
+        if (!line.combo_id) {
+            if (items.length > 0) {
+                throw new SaleError(`La línea ${index + 1} no es un combo; no admite productos del combo`);
+            }
+            return [];
+        }
+
+        const comboKey = uuidToBuffer(line.combo_id).toString("hex");
+        const slotTotals = new Map<string, number>();
+        const resolvedItems: ResolvedSaleComboItem[] = [];
+        items.forEach((item) => {
+            const amount = item?.amount ?? 1;
+            if (!item?.combo_detail_id || !item?.product_id || !Number.isInteger(amount) || amount <= 0) {
+                throw new SaleError(`Los productos del combo de la línea ${index + 1} requieren combo_detail_id, product_id y una cantidad válida`);
+            }
+
+            const slotKey = uuidToBuffer(item.combo_detail_id).toString("hex");
+            const slot = comboDetailMap.get(slotKey);
+            if (!slot || Buffer.from(slot.combo_id).toString("hex") !== comboKey) {
+                throw new SaleError(`La línea ${index + 1} tiene una selección que no corresponde a su combo`);
+            }
+            const product = productMap.get(uuidToBuffer(item.product_id).toString("hex"));
+            if (!product) {
+                throw new SaleError(`El producto elegido en el combo de la línea ${index + 1} no existe`, 404);
+            }
+            if (!product.is_active) {
+                throw new SaleError(`El producto "${product.name}" no está activo`);
+            }
+            if (slot.combo.branch_id && product.branch_id && !Buffer.from(product.branch_id).equals(Buffer.from(slot.combo.branch_id))) {
+                throw new SaleError(`El producto "${product.name}" no pertenece a la sucursal del combo de la línea ${index + 1}`);
+            }
+            if (!Buffer.from(product.type_id).equals(Buffer.from(slot.type_product_id))) {
+                throw new SaleError(`El producto "${product.name}" no es de tipo "${slot.type_product.name}" en el combo de la línea ${index + 1}`);
+            }
+
+            const slotTotal = (slotTotals.get(slotKey) ?? 0) + amount;
+            if (slotTotal > slot.amount) {
+                throw new SaleError(`El combo de la línea ${index + 1} admite como máximo ${slot.amount} producto(s) de tipo "${slot.type_product.name}"`);
+            }
+            slotTotals.set(slotKey, slotTotal);
+
+            const upcharge = slot.combo_slot_upcharge.find((slotUpcharge) => Buffer.from(slotUpcharge.product_id).equals(Buffer.from(product.id)));
+            resolvedItems.push({
+                combo_detail_id: slot.id,
+                product_id: product.id,
+                name: product.name,
+                amount: amount,
+                upcharge: upcharge ? upcharge.amount : 0,
+            });
+        });
+
+        comboDetails
+            .filter((slot) => Buffer.from(slot.combo_id).toString("hex") === comboKey)
+            .forEach((slot) => {
+                const slotTotal = slotTotals.get(Buffer.from(slot.id).toString("hex")) ?? 0;
+                if (slotTotal !== slot.amount) {
+                    throw new SaleError(`El combo de la línea ${index + 1} requiere ${slot.amount} producto(s) de tipo "${slot.type_product.name}"`);
+                }
+            });
+        return resolvedItems;
+    });
+}
+
+// Valida las líneas de una orden contra el catálogo y calcula su precio. Si alguna línea hace
+// referencia a un producto o combo inexistente o inactivo se rechaza la orden completa.
+// El precio unitario siempre se toma del catálogo al momento de la venta, nunca del cliente, e incluye
+// la diferencia de precio de los modificadores elegidos y los cargos extra de los productos elegidos en un combo.
+// Las recompensas de lealtad se venden como su producto con precio cero; los puntos se descuentan al registrar la venta.
+// Las tarjetas de regalo solo se venden en órdenes cobradas al momento, porque la tarjeta se emite al registrar la línea.
+export async function resolveSaleLines(tx: Prisma.TransactionClient, lines: SaleLineInput[], options: { allow_gift_cards?: boolean } = {}): Promise<ResolvedSaleLine[]> {
+    if (!Array.isArray(lines) || lines.length === 0) {
+        throw new SaleError("La orden debe contener al menos una línea");
+    }
+
+    const productIds = new Set<string>();
+    const comboIds = new Set<string>();
+    const rewardIds = new Set<string>();
+
+    lines.forEach((line, index) => {
+        if (!line || [line.product_id, line.combo_id, line.reward_id, line.gift_card_value !== undefined].filter(Boolean).length !== 1) {
+            throw new SaleError(`La línea ${index + 1} debe indicar un producto, un combo, una recompensa o una tarjeta de regalo`);
+        }
+        if (line.gift_card_value !== undefined) {
+            if (!options.allow_gift_cards) {
+                throw new SaleError(`La tarjeta de regalo de la línea ${index + 1} solo se puede vender en una orden cobrada al momento`);
+            }
+            const value = roundMoney(Number(line.gift_card_value));
+            if (!(value > 0 && value <= MAX_GIFT_CARD_VALUE)) {
+                throw new SaleError(`La tarjeta de regalo de la línea ${index + 1} debe tener un saldo entre 0 y ${MAX_GIFT_CARD_VALUE}`);
+            }
+            if (line.amount !== 1 || line.discount) {
+                throw new SaleError(`La tarjeta de regalo de la línea ${index + 1} debe tener cantidad 1 y no admite descuento`);
+            }
+        }
+        if (!Number.isInteger(line.amount) || line.amount <= 0) {
+            throw new SaleError(`La línea ${index + 1} tiene una cantidad inválida`);
+        }
+        if (line.reward_id && line.discount) {
+            throw new SaleError(`La línea ${index + 1} es una recompensa y no admite descuento`);
+        }
+        if (line.product_id) productIds.add(line.product_id);
+        if (line.combo_id) comboIds.add(line.combo_id);
+        if (line.reward_id) rewardIds.add(line.reward_id);
+    });
+
+    const rewards = rewardIds.size > 0 ? await tx.loyalty_reward.findMany({
+        where: {
+            id: { in: Array.from(rewardIds).map((id) => uuidToBuffer(id)) }
+        },
+        select: {
+            id: true,
+            name: true,
+            is_active: true,
+            product_id: true,
+            product: {
+                select: {
+                    is_active: true,
+                    is_tax_exempt: true,
+                }
+            }
+        }
+    }) : [];
+
+    const products = productIds.size > 0 ? await tx.product.findMany({
+        where: {
+            id: { in: Array.from(productIds).map((id) => uuidToBuffer(id)) }
+        },
+        select: {
+            id: true,
+            name: true,
+            price: true,
+            is_active: true,
+            is_tax_exempt: true,
+        }
+    }) : [];
+
+    const combos = comboIds.size > 0 ? await tx.combo.findMany({
+        where: {
+            id: { in: Array.from(comboIds).map((id) => uuidToBuffer(id)) }
+        },
+        select: {
+            id: true,
+            name: true,
+            price: true,
+            is_active: true,
+            is_tax_exempt: true,
+        }
+    }) : [];
+
+    await resolveDiscountReasons(tx, lines.map((line) => line.discount?.reason_id));
+    const lineModifiers = await resolveLineModifiers(tx, lines);
+    const lineComboItems = await resolveLineComboItems(tx, lines);
+
+    const productMap = new Map(products.map((product) => [Buffer.from(product.id).toString("hex"), product]));
+    const comboMap = new Map(combos.map((combo) => [Buffer.from(combo.id).toString("hex"), combo]));
+    const rewardMap = new Map(rewards.map((reward) => [Buffer.from(reward.id).toString("hex"), reward]));
+
+    return lines.map((line, index) => {
+        let unitPrice: number;
+        let isTaxExempt: boolean;
+        // La tarjeta de regalo no causa IVA al venderse; el impuesto se cobra en los productos que se paguen con ella
+        if (line.gift_card_value !== undefined) {
+            const value = roundMoney(Number(line.gift_card_value));
+            return {
+                product_id: null,
+                combo_id: null,
+                loyalty_reward_id: null,
+                is_gift_card: true,
+                gift_card_id: null,
+                modifiers: [],
+                combo_items: [],
+                amount: 1,
+                unit_price: value,
+                subtotal: value,
+                note: line.note || "",
+                discount_type: null,
+                discount_value: null,
+                discount_reason_id: null,
+                discount_amount: 0,
+                is_tax_exempt: true,
+                tax_rate: 0,
+                tax_base: 0,
+                tax_amount: 0,
+                total: value,
+            };
+        }
+        if (line.reward_id) {
+            const reward = rewardMap.get(uuidToBuffer(line.reward_id).toString("hex"));
+            if (!reward) {
+                throw new SaleError(`La recompensa de la línea ${index + 1} no existe`, 404);
+            }
+            if (!reward.is_active || !reward.product.is_active) {
+                throw new SaleError(`La recompensa "${reward.name}" no está activa`);
+            }
+
+            return {
+                product_id: reward.product_id,
+                combo_id: null,
+                loyalty_reward_id: reward.id,
+                is_gift_card: false,
+                gift_card_id: null,
+                modifiers: [],
+                combo_items: [],
+                amount: line.amount,
+                unit_price: 0,
+                subtotal: 0,
+                note: line.note || `Recompensa: ${reward.name}`,
+                discount_type: null,
+                discount_value: null,
+                discount_reason_id: null,
+                discount_amount: 0,
+                is_tax_exempt: reward.product.is_tax_exempt,
+                tax_rate: 0,
+                tax_base: 0,
+                tax_amount: 0,
+                total: 0,
+            };
+        }
+        if (line.product_id) {
+            const product = productMap.get(uuidToBuffer(line.product_id).toString("hex"));
+            if (!product) {
+                throw new SaleError(`El producto de la línea ${index + 1} no existe`, 404);
+            }
+            if (!product.is_active) {
+                throw new SaleError(`El producto "${product.name}" no está activo`);
+            }
+            unitPrice = roundMoney(product.price + lineModifiers[index].reduce((sum, modifier) => sum + modifier.price_delta, 0));
+            isTaxExempt = product.is_tax_exempt;
+            if (unitPrice < 0) {
+                throw new SaleError(`Los modificadores de la línea ${index + 1} dejan el precio en negativo`);
+            }
+        } else {
+            const combo = comboMap.get(uuidToBuffer(line.combo_id).toString("hex"));
+            if (!combo) {
+                throw new SaleError(`El combo de la línea ${index + 1} no existe`, 404);
+            }
+            if (!combo.is_active) {
+                throw new SaleError(`El combo "${combo.name}" no está activo`);
+            }
+            unitPrice = roundMoney(combo.price + lineComboItems[index].reduce((sum, item) => sum + item.upcharge * item.amount, 0));
+            isTaxExempt = combo.is_tax_exempt;
+        }
+
+        // El subtotal es el importe bruto; el descuento de la línea se guarda por separado
+        const subtotal = roundMoney(unitPrice * line.amount);
+        const discountAmount = line.discount ? computeDiscountAmount(subtotal, line.discount) : 0;
+
+        return {
+            product_id: line.product_id ? uuidToBuffer(line.product_id) : null,
+            combo_id: line.combo_id ? uuidToBuffer(line.combo_id) : null,
+            loyalty_reward_id: null,
+            is_gift_card: false,
+            gift_card_id: null,
+            modifiers: lineModifiers[index],
+            combo_items: lineComboItems[index],
+            amount: line.amount,
+            unit_price: unitPrice,
+            subtotal: subtotal,
+            note: line.note || "",
+            discount_type: line.discount ? line.discount.type : null,
+            discount_value: line.discount ? Number(line.discount.value) : null,
+            discount_reason_id: line.discount?.reason_id ? uuidToBuffer(line.discount.reason_id) : null,
+            discount_amount: discountAmount,
+            is_tax_exempt: isTaxExempt,
+            tax_rate: 0,
+            tax_base: 0,
+            tax_amount: 0,
+            total: roundMoney(subtotal - discountAmount),
+        };
+    });
+}
+
+// Resuelve el descuento general de la orden, ya sea manual o por código promocional,
+// sobre el importe que queda después de los descuentos por línea. El uso del código
+// promocional se registra en la misma transacción que la venta.
+export async function resolveOrderDiscount(tx: Prisma.TransactionClient, branchId: any, base: number, discount?: DiscountInput, promoCode?: string): Promise<ResolvedOrderDiscount> {
+    if (discount && promoCode) {
+        throw new SaleError("No se puede combinar un descuento manual con un código promocional");
+    }
+
+    if (discount) {
+        await resolveDiscountReasons(tx, [discount.reason_id]);
+        return {
+            discount_type: discount.type,
+            discount_value: Number(discount.value),
+            discount_amount: computeDiscountAmount(base, discount),
+            discount_reason_id: discount.reason_id ? uuidToBuffer(discount.reason_id) : null,
+            promo_code_id: null,
+        };
+    }
+
+    if (promoCode) {
+        const promo = await tx.promo_code.findFirst({
+            where: {
+                code: String(promoCode).trim().toUpperCase(),
+                branch_id: branchId
+            }
+        });
+
+        const now = new Date();
+        if (!promo || !promo.is_active) {
+            throw new SaleError("El código promocional no existe o no está activo", 404);
+        }
+        if ((promo.starts_at && promo.starts_at > now) || (promo.ends_at && promo.ends_at < now)) {
+            throw new SaleError("El código promocional no está vigente");
+        }
+
+        // El incremento condicionado evita exceder el límite de usos con ventas simultáneas
+        const usage = await tx.promo_code.updateMany({
+            where: {
+                id: promo.id,
+                ...(promo.max_uses !== null ? { used_count: { lt: promo.max_uses } } : {})
+            },
+            data: {
+                used_count: { increment: 1 },
+                updated_at: new Date()
+            }
+        });
+
+        if (usage.count === 0) {
+            throw new SaleError("El código promocional alcanzó su límite de usos");
+        }
+
+        return {
+            discount_type: promo.discount_type,
+            discount_value: promo.value,
+            discount_amount: computeDiscountAmount(base, { type: promo.discount_type, value: promo.value }),
+            discount_reason_id: null,
+            promo_code_id: promo.id,
+        };
+    }
+
+    return { discount_type: null, discount_value: null, discount_amount: 0, discount_reason_id: null, promo_code_id: null };
+}
+
+// Reparte el descuento general entre las líneas en proporción a su importe neto para que
+// cada línea conserve el descuento total que le corresponde. El residuo de redondeo va a la última línea.
+export function allocateOrderDiscount<T extends Pick<ResolvedSaleLine, "subtotal" | "discount_amount" | "total">>(lines: T[], amount: number): T[] {
+    const base = lines.reduce((sum, line) => sum + line.subtotal - line.discount_amount, 0);
+    if (!(amount > 0) || !(base > 0)) return lines;
+
+    let allocated = 0;
+    return lines.map((line, index) => {
+        const net = line.subtotal - line.discount_amount;
+        const share = index === lines.length - 1
+            ? roundMoney(amount - allocated)
+            : roundMoney(amount * net / base);
+        allocated = roundMoney(allocated + share);
+        const discountAmount = roundMoney(line.discount_amount + share);
+        return { ...line, discount_amount: discountAmount, total: roundMoney(line.subtotal - discountAmount) };
+    });
+}
+
+// Desglosa el IVA de un importe neto (después de descuentos). Si los precios incluyen
+// impuesto se extrae del importe; si no, se agrega encima y el total a cobrar aumenta.
+export function computeLineTax(net: number, taxRate: number, pricesIncludeTax: boolean) {
+    if (pricesIncludeTax) {
+        const taxBase = roundMoney(net / (1 + taxRate));
+        return { tax_base: taxBase, tax_amount: roundMoney(net - taxBase), total: roundMoney(net) };
+    }
+    const taxAmount = roundMoney(net * taxRate);
+    return { tax_base: roundMoney(net), tax_amount: taxAmount, total: roundMoney(net + taxAmount) };
+}
+
+// Aplica la configuración de impuestos de la sucursal a cada línea; las líneas exentas llevan tasa 0.
+// Las tarjetas de regalo no son una operación gravada y no suman a la base del impuesto.
+export function applySaleTaxes(lines: ResolvedSaleLine[], taxConfig: BranchTaxConfig): ResolvedSaleLine[] {
+    return lines.map((line) => {
+        if (line.is_gift_card) return line;
+        const taxRate = line.is_tax_exempt ? 0 : taxConfig.tax_rate;
+        return {
+            ...line,
+            tax_rate: taxRate,
+            ...computeLineTax(line.subtotal - line.discount_amount, taxRate, taxConfig.prices_include_tax),
+        };
+    });
+}
+
+// Totales de la venta: importe bruto, descuentos, base e impuesto, y total a cobrar
+export function summarizeSaleLines(lines: ResolvedSaleLine[]) {
+    const sumLines = (field: "subtotal" | "discount_amount" | "tax_base" | "tax_amount" | "total") =>
+        roundMoney(lines.reduce((sum, line) => sum + line[field], 0));
+    return {
+        subtotal: sumLines("subtotal"),
+        discount_total: sumLines("discount_amount"),
+        tax_base: sumLines("tax_base"),
+        tax_amount: sumLines("tax_amount"),
+        total: sumLines("total"),
+    };
+}
+
+// Roles que pueden autorizar cancelaciones y devoluciones registradas por otro usuario
+export const AUTHORIZER_ROLES = ["admin", "super_admin"];
+
+// Usuario que autoriza una cancelación o devolución. Sin indicarlo autoriza quien la registra;
+// otro usuario debe existir, estar activo y tener un rol que pueda autorizar.
+export async function resolveAuthorizer(tx: Prisma.TransactionClient, authorizedBy: any, requesterId: string): Promise<any> {
+    if (authorizedBy === undefined || authorizedBy === null || authorizedBy === "") {
+        return uuidToBuffer(requesterId);
+    }
+    if (typeof authorizedBy !== "string" || !UUID_PATTERN.test(authorizedBy)) {
+        throw new SaleError("El usuario que autoriza debe ser un UUID");
+    }
+
+    const user = await tx.user.findUnique({
+        where: {
+            id: uuidToBuffer(authorizedBy)
+        },
+        select: {
+            id: true,
+            is_active: true,
+            user_role: {
+                select: {
+                    code: true
+                }
+            }
+        }
+    });
+
+    if (!user || !user.is_active) {
+        throw new SaleError("El usuario que autoriza no existe o está inactivo", 404);
+    }
+    if (authorizedBy.toLowerCase() !== String(requesterId).toLowerCase() && !AUTHORIZER_ROLES.includes(user.user_role.code)) {
+        throw new SaleError("El usuario indicado no puede autorizar cancelaciones ni devoluciones", 403);
+    }
+    return user.id;
+}
@@ -0,0 +1,129 @@
+import { Prisma, sale_status } from "@prisma/client";
+import { UUID_PATTERN, uuidToBuffer } from "./common";
+import { SaleError } from "./sale";
+
+export const SALE_STATUSES: sale_status[] = ["open", "completed", "voided", "refunded", "partially_refunded"];
+export const SALE_SORT_FIELDS = ["created_at", "total", "ticket_number"] as const;
+
+export const DEFAULT_SALES_PAGE_SIZE = 50;
+export const MAX_SALES_PAGE_SIZE = 200;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_FORMAT_MESSAGE = "Formato de fecha inválido. Use YYYY-MM-DD (ejemplo: 2023-10-18)";
+
+const parseAmount = (value: any, label: string) => {
+    const amount = Number(value);
+    if (value === "" || isNaN(amount)) {
+        throw new SaleError(`${label} inválido`);
+    }
+    return amount;
+};
+
+const parseUuid = (value: any, label: string) => {
+    if (typeof value !== "string" || !UUID_PATTERN.test(value)) {
+        throw new SaleError(`${label} inválido`);
+    }
+    return uuidToBuffer(value);
+};
+
+// Arma el filtro del historial de ventas a partir de los parámetros de la consulta.
+// Las fechas son días de negocio en horario de México y ambos extremos se incluyen.
+export function buildSaleFilter(query: any): Prisma.saleWhereInput {
+    const {
+        start_date, end_date, branch_id, user_id, payment_method, min_total, max_total,
+        product_id, combo_id, customer_id, status, ticket_number, business_date,
+    } = query;
+    const conditions: Prisma.saleWhereInput[] = [];
+
+    if (start_date !== undefined || end_date !== undefined) {
+        if ((start_date !== undefined && !DATE_PATTERN.test(start_date)) || (end_date !== undefined && !DATE_PATTERN.test(end_date))) {
+            throw new SaleError(DATE_FORMAT_MESSAGE);
+        }
+        conditions.push({
+            created_at: {
+                gte: start_date ? new Date(`${start_date}T00:00:00-06:00`) : undefined,
+                lte: end_date ? new Date(`${end_date}T23:59:59.999-06:00`) : undefined,
+            }
+        });
+    }
+    if (business_date !== undefined) {
+        if (!DATE_PATTERN.test(business_date)) {
+            throw new SaleError(DATE_FORMAT_MESSAGE);
+        }
+        conditions.push({ business_date: new Date(`${business_date}T00:00:00Z`) });
+    }
+    if (ticket_number !== undefined) {
+        if (!/^\d+$/.test(ticket_number)) {
+            throw new SaleError("Número de ticket inválido");
+        }
+        conditions.push({ ticket_number: Number(ticket_number) });
+    }
+    if (branch_id !== undefined) {
+        conditions.push({ branch_id: parseUuid(branch_id, "Id de sucursal") });
+    }
+    if (user_id !== undefined) {
+        conditions.push({ user_id: parseUuid(user_id, "Id de cajero") });
+    }
+    if (payment_method !== undefined) {
+        // Las ventas anteriores a los pagos múltiples solo tienen el método en la venta
+        conditions.push({
+            OR: [
+                { payment_method: payment_method },
+                { sale_payment: { some: { method: payment_method } } },
+            ]
+        });
+    }
+    if (min_total !== undefined || max_total !== undefined) {
+        conditions.push({
+            total: {
+                gte: min_total !== undefined ? parseAmount(min_total, "Total mínimo") : undefined,
+                lte: max_total !== undefined ? parseAmount(max_total, "Total máximo") : undefined,
+            }
+        });
+    }
+    if (customer_id !== undefined) {
+        conditions.push({ customer_id: parseUuid(customer_id, "Id de cliente") });
+    }
+    if (product_id !== undefined) {
+        conditions.push({ sale_detail: { some: { product_id: parseUuid(product_id, "Id de producto") } } });
+    }
+    if (combo_id !== undefined) {
+        conditions.push({ sale_detail: { some: { combo_id: parseUuid(combo_id, "Id de combo") } } });
+    }
+    if (status !== undefined) {
+        const statuses = String(status).split(",");
+        if (statuses.some((value) => !SALE_STATUSES.includes(value as sale_status))) {
+            throw new SaleError(`Estado inválido. Use ${SALE_STATUSES.join(", ")}`);
+        }
+        conditions.push({ status: { in: statuses as sale_status[] } });
+    }
+
+    return { AND: conditions };
+}
+
+// Orden del historial; el id desempata para que la paginación por cursor sea estable
+export function buildSaleOrder(sort: any, order: any): Prisma.saleOrderByWithRelationInput[] {
+    const field = sort || "created_at";
+    const direction = order || "desc";
+
+    if (!SALE_SORT_FIELDS.includes(field)) {
+        throw new SaleError(`Campo de orden inválido. Use ${SALE_SORT_FIELDS.join(", ")}`);
+    }
+    if (direction !== "asc" && direction !== "desc") {
+        throw new SaleError("Dirección de orden inválida. Use asc o desc");
+    }
+
+    return [{ [field]: direction }, { id: direction }];
+}
+
+export function parseSaleCursor(cursor: any) {
+    return cursor ? parseUuid(cursor, "Cursor") : undefined;
+}
+
+export function parsePageSize(limit: any): number {
+    if (limit === undefined) return DEFAULT_SALES_PAGE_SIZE;
+    if (!/^\d+$/.test(limit) || Number(limit) < 1) {
+        throw new SaleError("El límite debe ser un número entero positivo");
+    }
+    return Math.min(Number(limit), MAX_SALES_PAGE_SIZE);
+}
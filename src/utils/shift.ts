@@ -0,0 +1,163 @@
+import { Prisma } from "@prisma/client";
+import { getPaymentMethods } from "./payment";
+import { roundMoney } from "./sale";
+
+// Turno de caja abierto en la sucursal, al que se ligan las ventas nuevas.
+// Con openedBy solo se acepta un turno abierto antes de esa fecha (ventas sincronizadas sin conexión).
+export async function getOpenShiftId(tx: Prisma.TransactionClient, branchId: any, openedBy?: Date): Promise<any> {
+    if (!branchId) return null;
+
+    const shift = await tx.cash_shift.findFirst({
+        where: {
+            branch_id: branchId,
+            status: "open",
+            opened_at: openedBy ? {
+                lte: openedBy
+            } : undefined
+        },
+        select: {
+            id: true
+        }
+    });
+
+    return shift ? shift.id : null;
+}
+
+// Selección de una devolución con lo necesario para saber cuánto salió de caja
+const shiftRefundSelect = {
+    total: true,
+    sale_refund_payment: {
+        select: {
+            method: true,
+            amount: true,
+        }
+    },
+    sale: {
+        select: {
+            total: true,
+            payment_method: true,
+            sale_payment: {
+                select: {
+                    method: true,
+                    amount: true,
+                }
+            }
+        }
+    }
+};
+
+const sumDrawerPayments = (payments: { method: string; amount: number }[], drawerMethods: Set<string>) => payments
+    .filter((payment) => drawerMethods.has(payment.method))
+    .reduce((sum, payment) => sum + payment.amount, 0);
+
+// Selección de una venta con lo necesario para saber cuánto entró a caja
+const shiftSaleSelect = {
+    total: true,
+    status: true,
+    void_shift_id: true,
+    payment_method: true,
+    sale_payment: {
+        select: {
+            method: true,
+            amount: true,
+        }
+    }
+};
+
+// Calcula el efectivo esperado en caja para un turno: fondo inicial, más lo cobrado con
+// métodos que entran a caja, más entradas y menos salidas de efectivo. Las órdenes abiertas no cuentan.
+// Las cancelaciones y devoluciones se descuentan del turno en que se hicieron, por lo que
+// se reembolsó con métodos que entran a caja.
+export async function computeShiftSummary(tx: Prisma.TransactionClient, shiftId: any) {
+    const shift = await tx.cash_shift.findUnique({
+        where: {
+            id: shiftId
+        },
+        select: {
+            opening_float: true,
+            branch_id: true,
+            sale: {
+                select: {
+                    ...shiftSaleSelect,
+                    // Las devoluciones anteriores al registro del turno se quedan con el turno de la venta
+                    sale_refund: {
+                        where: {
+                            shift_id: null
+                        },
+                        select: shiftRefundSelect
+                    }
+                }
+            },
+            voided_sale: {
+                select: shiftSaleSelect
+            },
+            sale_refund: {
+                select: shiftRefundSelect
+            },
+            cash_movement: {
+                select: {
+                    type: true,
+                    amount: true,
+                }
+            }
+        }
+    });
+
+    if (!shift) return null;
+
+    const paymentMethods = await getPaymentMethods(tx, shift.branch_id);
+    const drawerMethods = new Set(paymentMethods.filter((method) => method.counts_in_drawer).map((method) => method.code));
+
+    const saleDrawerAmount = (sale: { total: number; payment_method: string; sale_payment: { method: string; amount: number }[] }) => {
+        const payments = sale.sale_payment.length > 0
+            ? sale.sale_payment
+            : [{ method: sale.payment_method, amount: sale.total }];
+        return sumDrawerPayments(payments, drawerMethods);
+    };
+
+    // Lo cobrado en el turno entra a su caja aunque la venta se cancele después; las cancelaciones
+    // anteriores al registro del turno de cancelación se quedan fuera del turno de la venta
+    let salesCount = 0;
+    let salesTotal = 0;
+    let cashSales = 0;
+    shift.sale.forEach((sale) => {
+        if (sale.status === "open") return;
+        if (sale.status === "voided" && !sale.void_shift_id) return;
+
+        cashSales += saleDrawerAmount(sale);
+        if (sale.status === "voided") return;
+        salesCount += 1;
+        salesTotal += sale.total;
+    });
+    const cashVoids = shift.voided_sale.reduce((sum, sale) => sum + saleDrawerAmount(sale), 0);
+
+    // Las devoluciones sin formas de reembolso registradas se descuentan en la proporción
+    // que la venta se pagó con métodos que entran a caja
+    const refundDrawerAmount = (refund: any) => {
+        if (refund.sale_refund_payment.length > 0) {
+            return sumDrawerPayments(refund.sale_refund_payment, drawerMethods);
+        }
+        return refund.sale.total > 0 ? refund.total * saleDrawerAmount(refund.sale) / refund.sale.total : 0;
+    };
+    const cashRefunds = [...shift.sale_refund, ...shift.sale.flatMap((sale) => sale.sale_refund)]
+        .reduce((sum, refund) => sum + refundDrawerAmount(refund), 0);
+
+    const payIns = shift.cash_movement
+        .filter((movement) => movement.type === "pay_in")
+        .reduce((sum, movement) => sum + movement.amount, 0);
+    const payOuts = shift.cash_movement
+        .filter((movement) => movement.type === "pay_out")
+        .reduce((sum, movement) => sum + movement.amount, 0);
+
+    return {
+        opening_float: roundMoney(shift.opening_float),
+        sales_count: salesCount,
+        sales_total: roundMoney(salesTotal),
+        cash_sales: roundMoney(cashSales),
+        cash_voids: roundMoney(cashVoids),
+        cash_refunds: roundMoney(cashRefunds),
+        pay_ins: roundMoney(payIns),
+        pay_outs: roundMoney(payOuts),
+        expected_cash: roundMoney(shift.opening_float + cashSales - cashVoids - cashRefunds + payIns - payOuts),
+    };
+}
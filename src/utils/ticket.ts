@@ -0,0 +1,19 @@
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { uuidToBuffer } from "./common";
+
+// Asigna el siguiente número de ticket de la sucursal para el día de negocio. El upsert bloquea
+// la fila del contador hasta que termina la transacción, por lo que dos cobros simultáneos nunca
+// reciben el mismo número; LAST_INSERT_ID devuelve el valor asignado en esta misma conexión.
+export async function assignTicketNumber(tx: Prisma.TransactionClient, branchId: any, businessDate: string): Promise<number | null> {
+    if (!branchId) return null;
+
+    await tx.$executeRaw`
+        INSERT INTO ticket_sequence (id, created_at, updated_at, business_date, last_number, branch_id)
+        VALUES (${uuidToBuffer(uuidv4())}, NOW(), NOW(), ${businessDate}, LAST_INSERT_ID(1), ${branchId})
+        ON DUPLICATE KEY UPDATE last_number = LAST_INSERT_ID(last_number + 1), updated_at = NOW()
+    `;
+
+    const [sequence] = await tx.$queryRaw<{ number: bigint }[]>`SELECT LAST_INSERT_ID() AS number`;
+    return Number(sequence.number);
+}
@@ -0,0 +1,62 @@
+// Zona horaria de las sucursales cuando no se ha configurado otra
+export const DEFAULT_TIMEZONE = "America/Mexico_City";
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Partes de fecha y hora de un instante en la zona horaria indicada
+function getZonedParts(date: Date, timeZone: string) {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    }).formatToParts(date);
+
+    const value = (type: string) => parts.find((part) => part.type === type).value;
+    return {
+        year: value("year"),
+        month: value("month"),
+        day: value("day"),
+        hour: value("hour"),
+        minute: value("minute"),
+        second: value("second"),
+    };
+}
+
+// Fecha y hora local de la sucursal en formato YYYY-MM-DD HH:mm:ss
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+    const parts = getZonedParts(date, timeZone);
+    return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second}`;
+}
+
+// Fecha local (YYYY-MM-DD) de un instante en la zona horaria indicada
+export function getLocalDate(date: Date, timeZone: string): string {
+    return formatLocalDateTime(date, timeZone).slice(0, 10);
+}
+
+// Instante UTC en que empieza el día local (YYYY-MM-DD) de la zona horaria.
+// Toma en cuenta el horario de verano si la zona lo tiene.
+export function getLocalDayStart(date: string, timeZone: string): Date {
+    const guess = new Date(`${date}T00:00:00Z`);
+    const parts = getZonedParts(guess, timeZone);
+    const localAsUtc = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second));
+    return new Date(guess.getTime() - (localAsUtc - guess.getTime()));
+}
+
+// Instante UTC en que termina el día local (inicio del día siguiente); se usa como límite exclusivo
+export function getLocalDayEnd(date: string, timeZone: string): Date {
+    const nextDay = new Date(`${date}T00:00:00Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    return getLocalDayStart(nextDay.toISOString().slice(0, 10), timeZone);
+}